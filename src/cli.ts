@@ -3,9 +3,17 @@
 import { Command } from 'commander';
 import { APP_CONFIG } from './config/constants';
 import { createFeedCommand } from './cli/handlers/feed-handler';
-import { createDownloadFeedCommand, createDownloadUrlCommand, createDownloadLocalCommand } from './cli/handlers/download-handler';
+import {
+  createDownloadFeedCommand,
+  createDownloadUrlCommand,
+  createDownloadLocalCommand,
+  createDownloadHarCommand
+} from './cli/handlers/download-handler';
 import { createConfigCommand } from './cli/handlers/config-handler';
-import { setupLogging } from './cli/logging-setup';
+import { createVerifyCommand } from './cli/handlers/verify-handler';
+import { createLibraryCommand } from './cli/handlers/library-handler';
+import { applySettings, applyProfileOptions, reportConfigLoad } from './cli/settings-setup';
+import { handleError } from './utils/common/error-handler';
 
 const program = new Command();
 
@@ -15,18 +23,25 @@ program
   .version(APP_CONFIG.VERSION)
   .option('--debug', 'Enable debug logging globally')
   .option('--log-to-file', 'Save logs to file globally')
-  .option('--log-level <level>', 'Set log level globally (error, warn, info, debug, trace)');
+  .option('--log-level <level>', 'Set log level globally (error, warn, info, debug, trace)')
+  .option('--profile <name>', `Use a named config profile (default: $${APP_CONFIG.PROFILE_ENV} or the one set with \`config profile use\`)`);
 
-// Handle global debug options
+// Resolve layered settings (defaults, config files, profile, env, flags) before every command
 program.hook('preAction', (thisCommand, actionCommand) => {
-  const globalOptions = thisCommand.opts();
-  if (globalOptions.debug || globalOptions.logToFile || globalOptions.logLevel) {
-    setupLogging({
-      debug: globalOptions.debug,
-      logToFile: globalOptions.logToFile,
-      logLevel: globalOptions.logLevel,
-      verbose: false
-    });
+  // Flags of `config` subcommands describe values to store, not overrides for this run
+  let isConfigCommand = false;
+  for (let cmd: Command | null = actionCommand; cmd; cmd = cmd.parent) {
+    if (cmd.name() === 'config' && cmd.parent === thisCommand) isConfigCommand = true;
+  }
+  // `config validate` reports problems itself instead of failing on them here
+  if (isConfigCommand && actionCommand.name() === 'validate') return;
+
+  try {
+    reportConfigLoad();
+    applySettings(isConfigCommand ? thisCommand.opts() : actionCommand.optsWithGlobals());
+    if (!isConfigCommand) applyProfileOptions(actionCommand);
+  } catch (error) {
+    handleError(error, 'resolving settings');
   }
 });
 
@@ -40,7 +55,10 @@ const downloadCmd = program
 downloadCmd.addCommand(createDownloadFeedCommand());
 downloadCmd.addCommand(createDownloadUrlCommand());
 downloadCmd.addCommand(createDownloadLocalCommand());
+downloadCmd.addCommand(createDownloadHarCommand());
 
+program.addCommand(createVerifyCommand());
+program.addCommand(createLibraryCommand());
 program.addCommand(createConfigCommand());
 
 
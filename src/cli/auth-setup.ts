@@ -0,0 +1,66 @@
+import * as path from 'path';
+import { ConfigManager } from '../lib/services/config-manager';
+import { loadCurlFile } from '../lib/auth/curl-parser';
+import { CookieJar } from '../lib/auth/cookie-jar';
+import { API_CONFIG, AUTH_CONFIG } from '../config/constants';
+
+export interface AuthContext {
+  cookies?: string;
+  cookiesFile?: string;
+  fromCurl?: string;
+}
+
+export interface ResolvedAuth {
+  cookies?: string;
+  headers?: Record<string, string>;
+  cookieJar?: CookieJar;
+}
+
+function loadCookieJar(filePath: string): CookieJar {
+  const jar = CookieJar.load(filePath);
+  const cookieCount = jar.getCookies(API_CONFIG.BASE_URL).length;
+  console.log(`🍪 Loaded ${cookieCount} cookies for ${AUTH_CONFIG.COOKIE_DOMAIN} from ${path.resolve(filePath)} (${jar.getFormat()})`);
+
+  for (const warning of jar.getExpiryWarnings(API_CONFIG.BASE_URL)) {
+    const when = warning.expires.toLocaleString();
+    console.log(warning.expired
+      ? `⚠️  Cookie ${warning.name} expired at ${when}; re-export your cookies`
+      : `⚠️  Cookie ${warning.name} expires at ${when}`);
+  }
+
+  return jar;
+}
+
+/**
+ * Work out the cookies and request headers for API calls. Cookies come from,
+ * in order: `--cookies`, the SORA_DL_COOKIES environment variable, a
+ * `--from-curl` capture, then a `--cookies-file` jar. A capture also supplies
+ * headers; otherwise headers previously imported with
+ * `config set --from-curl` replace the built-in defaults.
+ */
+export function resolveAuth(context: AuthContext): ResolvedAuth {
+  let cookies = context.cookies || process.env[AUTH_CONFIG.COOKIES_ENV] || undefined;
+  let headers: Record<string, string> | undefined;
+
+  if (context.fromCurl) {
+    const parsed = loadCurlFile(context.fromCurl);
+    const headerCount = Object.keys(parsed.headers).length;
+    console.log(`🔐 Using ${headerCount} headers${parsed.cookies ? ' and cookies' : ''} from ${path.resolve(context.fromCurl)}`);
+    cookies = cookies || parsed.cookies;
+    headers = parsed.headers;
+  } else {
+    const storedHeaders = ConfigManager.getInstance().get('requestHeaders');
+    headers = storedHeaders && Object.keys(storedHeaders).length > 0 ? storedHeaders : undefined;
+  }
+
+  let cookieJar: CookieJar | undefined;
+  if (context.cookiesFile) {
+    if (cookies) {
+      console.log('⚠️  Ignoring --cookies-file because cookies were given directly');
+    } else {
+      cookieJar = loadCookieJar(context.cookiesFile);
+    }
+  }
+
+  return { cookies, headers, cookieJar };
+}
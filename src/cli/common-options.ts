@@ -11,10 +11,46 @@ export interface DownloadOptions extends CommonOptions {
   outputDir?: string;
   overwrite?: boolean;
   concurrent?: number;
+  maxPerHost?: number;
   count?: number;
   all?: boolean;
+  maxPages?: number;
+  outputTemplate?: string;
+  variant?: string;
+  embedMetadata?: boolean;
+  writeSidecars?: string;
+  nfoType?: string;
+  subtitleDetails?: boolean;
+  downloadArchive?: string;
+  archive?: boolean;
+  rebuildArchive?: boolean;
+  limitRate?: string;
+  requestDelay?: string;
+  requestJitter?: string;
 }
 
+export interface AuthOptions {
+  cookies?: string;
+  cookiesFile?: string;
+  fromCurl?: string;
+}
+
+export interface FilterOptions {
+  author?: string;
+  since?: string;
+  until?: string;
+  minLikes?: string;
+  minViews?: string;
+  minRemixes?: string;
+  matchText?: string;
+  matchPrompt?: string;
+  aspect?: string;
+  featured?: boolean;
+  excludeBlocked?: boolean;
+  excludeTombstoned?: boolean;
+  sort?: string;
+  reverse?: boolean;
+}
 
 export interface OutputOptions extends CommonOptions {
   output?: string;
@@ -23,9 +59,9 @@ export interface OutputOptions extends CommonOptions {
 
 // Common option definitions
 export const COMMON_DEBUG_OPTIONS = [
-  ['--debug', 'Enable debug logging', false],
-  ['--log-to-file', 'Save logs to file', false],
-  ['--log-level <level>', 'Set log level (error, warn, info, debug, trace)', 'info']
+  ['--debug', 'Enable debug logging'],
+  ['--log-to-file', 'Save logs to file'],
+  ['--log-level <level>', 'Set log level (error, warn, info, debug, trace)']
 ] as const;
 
 export const COMMON_VERBOSE_OPTIONS = [
@@ -38,9 +74,68 @@ export const COMMON_OUTPUT_OPTIONS = [
 ] as const;
 
 export const COMMON_DOWNLOAD_OPTIONS = [
-  ['-o, --output-dir <dir>', 'Output directory for downloaded files', './downloads'],
-  ['--overwrite', 'Overwrite existing files', false],
-  ['--concurrent <number>', 'Maximum concurrent downloads', '3']
+  ['-o, --output-dir <dir>', 'Output directory for downloaded files (default: configured, else ./downloads)'],
+  ['--overwrite', 'Overwrite existing files'],
+  ['--concurrent <number>', 'Maximum concurrent downloads (default: configured, else 3)'],
+  ['--max-per-host <number>', 'Maximum concurrent downloads from a single host (default: --concurrent)'],
+  ['--output-template <template>', 'Output path template, e.g. "{username}/{posted_date}/{id}_{title:40}.{ext}"', '{title}.{ext}'],
+  ['--variant <variant>', 'Encoding to download: source, watermarked or both', 'source'],
+  ['--embed-metadata', 'Write title, author, prompt, date, permalink and cover art into each MP4'],
+  ['--write-sidecars <formats>', 'Extra sidecars to write besides the metadata json: nfo (Kodi/Jellyfin), infojson (yt-dlp), srt and/or vtt (prompt subtitles), comma-separated'],
+  ['--nfo-type <type>', 'Root element of NFO sidecars: movie or musicvideo', 'movie'],
+  ['--subtitle-details', 'Add the author and like/view/remix counts to srt/vtt prompt subtitles']
+] as const;
+
+export const COMMON_ARCHIVE_OPTIONS = [
+  ['--download-archive <file>', 'Archive file of already downloaded posts (default: <output-dir>/download-archive.txt)'],
+  ['--no-archive', 'Ignore the download archive'],
+  ['--rebuild-archive', 'Rebuild the download archive from the metadata directory before downloading', false]
+] as const;
+
+export const COMMON_POLITENESS_OPTIONS = [
+  ['--limit-rate <rate>', 'Maximum total download rate across all streams, e.g. 500K or 2M'],
+  ['--request-delay <ms>', 'Minimum delay between API and CDN requests in milliseconds', '0'],
+  ['--request-jitter <ms>', 'Random extra delay of up to this many milliseconds per request', '0']
+] as const;
+
+export const COMMON_AUTH_OPTIONS = [
+  ['-c, --cookies <cookies>', 'Cookies string for authentication (default: $SORA_DL_COOKIES)'],
+  ['--cookies-file <file>', 'Netscape cookies.txt or JSON cookie export; refreshed cookies are written back'],
+  ['--from-curl <file>', 'Read cookies and headers from a saved "Copy as cURL" command']
+] as const;
+
+export const COMMON_FILTER_OPTIONS = [
+  ['--author <usernames>', 'Only posts by these usernames or user ids (comma-separated)'],
+  ['--since <date>', 'Only posts from this date on, e.g. 2025-10-01, an ISO time or a relative age like 7d'],
+  ['--until <date>', 'Only posts up to this date (a bare date includes the whole day)'],
+  ['--min-likes <number>', 'Only posts with at least this many likes'],
+  ['--min-views <number>', 'Only posts with at least this many views'],
+  ['--min-remixes <number>', 'Only posts with at least this many remixes'],
+  ['--match-text <regex>', 'Only posts whose text or caption matches (case-insensitive; /regex/flags to set flags)'],
+  ['--match-prompt <regex>', 'Only posts whose generation prompt matches'],
+  ['--aspect <ratio>', 'Only videos of this shape: portrait, landscape, square or a ratio such as 9:16'],
+  ['--featured', 'Only featured posts'],
+  ['--exclude-blocked', 'Skip posts whose output was blocked'],
+  ['--exclude-tombstoned', 'Skip deleted (tombstoned) posts']
+] as const;
+
+export const COMMON_SORT_OPTIONS = [
+  ['--sort <key>', 'Rank posts before --count is applied: posted_at, like_count, view_count, remix_count or engagement (highest first)'],
+  ['--reverse', 'Reverse the --sort order (lowest or oldest first)']
+] as const;
+
+export const COMMON_LIBRARY_OPTIONS = [
+  ['-o, --output-dir <dir>', 'Download directory holding the library (default: configured, else ./downloads)'],
+  ['--json', 'Print results as JSON', false]
+] as const;
+
+export const COMMON_LIBRARY_QUERY_OPTIONS = [
+  ['--author <username>', 'Only videos by this author'],
+  ['--variant <variant>', 'Only this variant: source or watermarked'],
+  ['--sort <key>', 'Order by downloaded_at, posted_at, like_count, view_count, remix_count or duration (newest/highest first)', 'downloaded_at'],
+  ['--reverse', 'Reverse the order (oldest/lowest first)'],
+  ['-n, --limit <number>', 'Maximum number of videos to show', '20'],
+  ['--all', 'Show every match', false]
 ] as const;
 
 export const COMMON_COUNT_OPTIONS = [
@@ -63,8 +158,8 @@ export const COMMON_CHART_OPTIONS = [
 
 // Helper functions to add common options to commands
 export function addDebugOptions(command: Command): Command {
-  COMMON_DEBUG_OPTIONS.forEach(([option, description, defaultValue]) => {
-    command.option(option, description, defaultValue);
+  COMMON_DEBUG_OPTIONS.forEach(([option, description]) => {
+    command.option(option, description);
   });
   return command;
 }
@@ -90,6 +185,41 @@ export function addDownloadOptions(command: Command): Command {
   return command;
 }
 
+export function addArchiveOptions(command: Command): Command {
+  COMMON_ARCHIVE_OPTIONS.forEach(([option, description, defaultValue]) => {
+    command.option(option, description, defaultValue);
+  });
+  return command;
+}
+
+export function addPolitenessOptions(command: Command): Command {
+  COMMON_POLITENESS_OPTIONS.forEach(([option, description, defaultValue]) => {
+    command.option(option, description, defaultValue);
+  });
+  return command;
+}
+
+export function addAuthOptions(command: Command): Command {
+  COMMON_AUTH_OPTIONS.forEach(([option, description]) => {
+    command.option(option, description);
+  });
+  return command;
+}
+
+export function addFilterOptions(command: Command): Command {
+  COMMON_FILTER_OPTIONS.forEach(([option, description]) => {
+    command.option(option, description);
+  });
+  return command;
+}
+
+export function addSortOptions(command: Command): Command {
+  COMMON_SORT_OPTIONS.forEach(([option, description]) => {
+    command.option(option, description);
+  });
+  return command;
+}
+
 export function addCountOptions(command: Command): Command {
   COMMON_COUNT_OPTIONS.forEach(([option, description, defaultValue]) => {
     command.option(option, description, defaultValue);
@@ -118,18 +248,18 @@ export function addCommonOptions(command: Command): Command {
 }
 
 export function addDownloadCommonOptions(command: Command): Command {
-  return addCommonOptions(addDownloadOptions(addCountOptions(command)));
+  return addCommonOptions(addPolitenessOptions(addArchiveOptions(addDownloadOptions(addSortOptions(addFilterOptions(addCountOptions(command)))))));
 }
 
 export function addFeedOptions(command: Command): Command {
-  command
-    .option('-c, --cookies <cookies>', 'Cookies string for authentication');
+  addAuthOptions(command)
+    .option('--cursor <cursor>', 'Fetch the feed page at this cursor');
   return addMonitorOptions(addChartOptions(addOutputOptions(command)));
 }
 
 export function addDownloadFeedOptions(command: Command): Command {
-  command
-    .option('-c, --cookies <cookies>', 'Cookies string for authentication');
+  addAuthOptions(command)
+    .option('--max-pages <number>', 'Maximum number of feed pages to fetch', '50');
   return addDownloadCommonOptions(command);
 }
 
@@ -138,8 +268,10 @@ export function addDownloadUrlOptions(command: Command): Command {
   command
     .option('-u, --url <url>', 'Video URL to download')
     .option('-t, --title <title>', 'Video title for filename')
-    .option('-o, --output-dir <dir>', 'Output directory for downloaded video', './downloads')
-    .option('--overwrite', 'Overwrite existing files', false);
+    .option('-o, --output-dir <dir>', 'Output directory for downloaded video (default: configured, else ./downloads)')
+    .option('--output-template <template>', 'Output path template, e.g. "{posted_date}/{title}.{ext}"', '{title}.{ext}')
+    .option('--overwrite', 'Overwrite existing files')
+    .option('--limit-rate <rate>', 'Maximum download rate, e.g. 500K or 2M');
   return command;
 }
 
@@ -151,6 +283,36 @@ export function addDownloadLocalOptions(command: Command): Command {
   return command;
 }
 
+export function addDownloadHarOptions(command: Command): Command {
+  addDownloadCommonOptions(command);
+  command
+    .argument('<har-file>', 'Path to a HAR file exported from the browser DevTools')
+    .option('--list', 'List captured posts without downloading', false);
+  return command;
+}
+
+export function addLibraryOptions(command: Command): Command {
+  COMMON_LIBRARY_OPTIONS.forEach(([option, description, defaultValue]) => {
+    command.option(option, description, defaultValue);
+  });
+  return addCommonOptions(command);
+}
+
+export function addLibraryQueryOptions(command: Command): Command {
+  COMMON_LIBRARY_QUERY_OPTIONS.forEach(([option, description, defaultValue]) => {
+    command.option(option, description, defaultValue);
+  });
+  return addLibraryOptions(command);
+}
+
+export function addVerifyOptions(command: Command): Command {
+  command
+    .argument('[output-dir]', 'Download directory to verify (default: configured output directory)')
+    .option('--json', 'Print results as JSON', false)
+    .option('--all', 'List every checked file, not only problems', false);
+  return addCommonOptions(command);
+}
+
 
 export function addConfigOptions(command: Command): Command {
   // Config commands don't need debug options - they're simple operations
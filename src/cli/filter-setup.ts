@@ -0,0 +1,69 @@
+import { PostFilter, PostFilterCriteria } from '../lib/feed/filter';
+import { PostSortKey, PostSortOptions, POST_SORT_KEYS } from '../lib/feed/sort';
+import { createValidationError } from '../utils/common/error-handler';
+import { FilterOptions } from './common-options';
+
+function parseMinimum(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const minimum = Number(value);
+  if (!Number.isInteger(minimum) || minimum < 0) {
+    throw createValidationError(`${flag} must be a non-negative whole number`, { value });
+  }
+  return minimum;
+}
+
+/**
+ * Build the post filter for the download commands' filter flags, or
+ * undefined when none were given.
+ */
+export function createPostFilter(options: FilterOptions): PostFilter | undefined {
+  const criteria: PostFilterCriteria = {
+    authors: options.author?.split(',').map(author => author.trim()).filter(Boolean),
+    since: options.since !== undefined ? PostFilter.parseDate(options.since, '--since') : undefined,
+    until: options.until !== undefined ? PostFilter.parseDate(options.until, '--until', true) : undefined,
+    minLikes: parseMinimum(options.minLikes, '--min-likes'),
+    minViews: parseMinimum(options.minViews, '--min-views'),
+    minRemixes: parseMinimum(options.minRemixes, '--min-remixes'),
+    text: options.matchText !== undefined ? PostFilter.parsePattern(options.matchText, '--match-text') : undefined,
+    prompt: options.matchPrompt !== undefined ? PostFilter.parsePattern(options.matchPrompt, '--match-prompt') : undefined,
+    aspectRatio: options.aspect !== undefined ? PostFilter.parseAspectRatio(options.aspect) : undefined,
+    featured: options.featured ? true : undefined,
+    excludeBlocked: options.excludeBlocked || undefined,
+    excludeTombstoned: options.excludeTombstoned || undefined
+  };
+
+  if (criteria.since && criteria.until && criteria.since > criteria.until) {
+    throw createValidationError('--since must not be later than --until', { since: options.since, until: options.until });
+  }
+
+  const filter = new PostFilter(criteria);
+  return filter.isEmpty() ? undefined : filter;
+}
+
+/**
+ * Sort order from --sort and --reverse, or undefined to keep feed order.
+ */
+export function createPostSort(options: FilterOptions): PostSortOptions | undefined {
+  if (options.sort === undefined) {
+    if (options.reverse) {
+      throw createValidationError('--reverse needs --sort');
+    }
+    return undefined;
+  }
+
+  const key = options.sort.trim().toLowerCase().replace(/-/g, '_') as PostSortKey;
+  if (!POST_SORT_KEYS.includes(key)) {
+    throw createValidationError(`--sort must be one of: ${POST_SORT_KEYS.join(', ')}`, { value: options.sort });
+  }
+  return { key, reverse: !!options.reverse };
+}
+
+/**
+ * Header lines describing the active filter and sort order.
+ */
+export function describeFilter(filter: PostFilter | undefined, sort?: PostSortOptions): Record<string, string> {
+  const info: Record<string, string> = {};
+  if (filter) info['🔎 Filter'] = filter.describe().join('; ');
+  if (sort) info['↕️  Sort'] = `${sort.key}, ${sort.reverse ? 'lowest/oldest' : 'highest/newest'} first`;
+  return info;
+}
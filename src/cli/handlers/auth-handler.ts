@@ -0,0 +1,120 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import { CredentialStore, CredentialSource, StoredCredentials } from '../../lib/auth/credential-store';
+import { CookieJar } from '../../lib/auth/cookie-jar';
+import { loadCurlFile } from '../../lib/auth/curl-parser';
+import { readPassphrase } from '../../lib/auth/passphrase';
+import { handleError, createValidationError } from '../../utils/common/error-handler';
+import { API_CONFIG, AUTH_CONFIG } from '../../config/constants';
+
+function collectCredentials(options: { cookies?: string; cookiesFile?: string; fromCurl?: string }): { credentials: StoredCredentials; source: CredentialSource } {
+  const given = [options.cookies, options.cookiesFile, options.fromCurl].filter(Boolean).length;
+  if (given > 1) {
+    throw createValidationError('Use only one of --cookies, --cookies-file and --from-curl');
+  }
+
+  if (options.cookiesFile) {
+    const jar = CookieJar.load(options.cookiesFile);
+    const cookies = jar.getCookies(API_CONFIG.BASE_URL);
+    if (cookies.length === 0) {
+      throw createValidationError(`No unexpired cookies for ${AUTH_CONFIG.COOKIE_DOMAIN} in ${options.cookiesFile}`);
+    }
+    return { credentials: { jar: cookies }, source: 'cookies-file' };
+  }
+
+  if (options.fromCurl) {
+    const parsed = loadCurlFile(options.fromCurl);
+    if (!parsed.cookies) {
+      throw createValidationError(`No cookies found in curl command: ${options.fromCurl}`);
+    }
+    return { credentials: { cookies: parsed.cookies }, source: 'from-curl' };
+  }
+
+  const cookies = options.cookies || process.env[AUTH_CONFIG.COOKIES_ENV];
+  if (!cookies) {
+    throw createValidationError(`Provide --cookies, --cookies-file or --from-curl (or set ${AUTH_CONFIG.COOKIES_ENV})`);
+  }
+  return { credentials: { cookies }, source: 'cookies' };
+}
+
+function getCookieNames(credentials: StoredCredentials): string[] {
+  if (credentials.jar) return credentials.jar.map(cookie => cookie.name);
+  return (credentials.cookies || '')
+    .split(';')
+    .map(part => part.split('=')[0].trim())
+    .filter(Boolean);
+}
+
+export function createConfigAuthCommand(): Command {
+  const command = new Command('auth')
+    .description('Manage encrypted stored credentials');
+
+  command
+    .command('set')
+    .description('Encrypt and store cookies, used when no --cookies option is given')
+    .option('-c, --cookies <cookies>', `Cookie string to store (default: $${AUTH_CONFIG.COOKIES_ENV})`)
+    .option('--cookies-file <file>', 'Store the Sora cookies from a Netscape cookies.txt or JSON export')
+    .option('--from-curl <file>', 'Store the cookies of a saved "Copy as cURL" command')
+    .action(async (options) => {
+      try {
+        const { credentials, source } = collectCredentials(options);
+        const store = new CredentialStore();
+        const passphrase = await readPassphrase('🔐 New passphrase: ', { confirm: true });
+
+        store.save(credentials, source, passphrase);
+        console.log(`✅ Stored ${getCookieNames(credentials).length} cookies in ${store.getPath()}`);
+        console.log(`💡 Set ${AUTH_CONFIG.PASSPHRASE_ENV} to unlock them without a prompt`);
+      } catch (error) {
+        handleError(error, 'storing credentials');
+      }
+    });
+
+  command
+    .command('show')
+    .description('Describe the stored credentials (cookie values are never printed)')
+    .action(async () => {
+      try {
+        const store = new CredentialStore();
+        const info = store.getInfo();
+        if (!info) {
+          console.log('🔐 No stored credentials');
+          console.log('💡 Store some with: sora-dl config auth set --cookies-file cookies.txt');
+          return;
+        }
+
+        console.log('🔐 Stored Credentials:');
+        console.log(`   • File: ${store.getPath()}`);
+        console.log(`   • Source: ${info.source}`);
+        console.log(`   • Saved: ${new Date(info.savedAt).toLocaleString()}`);
+
+        const credentials = store.load(await readPassphrase('🔐 Passphrase: '));
+        console.log(`   • Cookies: ${getCookieNames(credentials).join(', ')}`);
+
+        if (credentials.jar) {
+          for (const warning of CookieJar.fromCookies(credentials.jar).getExpiryWarnings(API_CONFIG.BASE_URL)) {
+            console.log(`   ⚠️  ${warning.name} ${warning.expired ? 'expired' : 'expires'} at ${warning.expires.toLocaleString()}`);
+          }
+        }
+      } catch (error) {
+        handleError(error, 'showing credentials');
+      }
+    });
+
+  command
+    .command('clear')
+    .description('Delete the stored credentials')
+    .action(async () => {
+      try {
+        const store = new CredentialStore();
+        if (store.clear()) {
+          console.log(`🗑️  Deleted ${path.resolve(store.getPath())}`);
+        } else {
+          console.log('🔐 No stored credentials');
+        }
+      } catch (error) {
+        handleError(error, 'clearing credentials');
+      }
+    });
+
+  return command;
+}
@@ -1,8 +1,116 @@
 import { Command } from 'commander';
-import { ConfigManager } from '../../lib/services/config-manager';
-import { handleError } from '../../utils/common/error-handler';
+import * as fs from 'fs';
+import { ConfigManager, ConfigIssue, CONFIG_KEYS } from '../../lib/services/config-manager';
+import { ConfigMigrator } from '../../lib/services/config-migrations';
+import { SettingsResolver, SETTING_KEYS, SettingOrigin } from '../../lib/services/settings-resolver';
+import { getEffectiveSettings } from '../settings-setup';
+import { handleError, createValidationError } from '../../utils/common/error-handler';
 import { setupLogging } from '../logging-setup';
+import { loadCurlFile, getPersistableHeaders } from '../../lib/auth/curl-parser';
+import { CredentialStore } from '../../lib/auth/credential-store';
 import { addConfigOptions } from '../common-options';
+import { createConfigAuthCommand } from './auth-handler';
+import { createConfigProfileCommand } from './profile-handler';
+import { APP_CONFIG } from '../../config/constants';
+
+const SOURCE_LABELS: Record<SettingOrigin['source'], string> = {
+  default: 'built-in default',
+  user: 'user config',
+  profile: 'profile',
+  project: 'project config',
+  env: 'environment',
+  cli: 'command line'
+};
+
+function showEffectiveSettings(): void {
+  const { values, origins } = getEffectiveSettings();
+
+  console.log('📋 Effective Settings (defaults < user config < profile < .sora-dlrc < SORA_DL_* env < flags):');
+  console.log('=' .repeat(40));
+  for (const key of SETTING_KEYS) {
+    const origin = origins[key];
+    const location = origin.location ? ` ${origin.location}` : '';
+    console.log(`   • ${key}: ${JSON.stringify(values[key])}  ← ${SOURCE_LABELS[origin.source]}${location}`);
+  }
+
+  console.log('\n💡 Overrides:');
+  for (const key of SETTING_KEYS) {
+    const flag = SettingsResolver.getFlag(key);
+    console.log(`   • ${key}: ${SettingsResolver.getEnvVarName(key)}${flag ? `, ${flag}` : ''}`);
+  }
+  console.log(`\n📁 Project config: ${SettingsResolver.findProjectConfig() || 'none found'}`);
+
+  const profile = ConfigManager.getInstance().getActiveProfile();
+  console.log(`👤 Profile: ${profile ? `${profile.name} (via ${profile.selectedBy})` : 'none'}`);
+  const flagDefaults = Object.entries(profile?.config.options || {});
+  if (flagDefaults.length > 0) {
+    console.log(`   • Flag defaults: ${flagDefaults.map(([name, value]) => `${name}=${JSON.stringify(value)}`).join(', ')}`);
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function printCheck(label: string, issues: ConfigIssue[]): void {
+  if (issues.length === 0) {
+    console.log(`   ✅ ${label}`);
+    return;
+  }
+  console.log(`   ❌ ${label}`);
+  for (const issue of issues) {
+    console.log(`      • ${issue.key}: ${issue.message}`);
+  }
+}
+
+function validateConfiguration(profileFlag?: string): number {
+  let problems = 0;
+
+  console.log('🔍 Validating configuration:');
+
+  // Inspected before getInstance() migrates and rewrites it
+  const configPath = ConfigManager.getDefaultConfigPath();
+  if (fs.existsSync(configPath)) {
+    const { version, issues } = ConfigManager.inspectFile(configPath);
+    const migration = version !== undefined && ConfigMigrator.needsMigration(version)
+      ? `, will be migrated to ${ConfigMigrator.CURRENT_VERSION}`
+      : '';
+    printCheck(`${configPath} (version ${version ?? '?'}${migration})`, issues);
+    problems += issues.length;
+  } else {
+    console.log(`   ➖ ${configPath} (not created yet)`);
+  }
+
+  const projectConfig = SettingsResolver.findProjectConfig();
+  if (projectConfig) {
+    let issues: ConfigIssue[];
+    try {
+      issues = ConfigManager.validateFields(ConfigManager.readJsonObject(projectConfig), projectConfig).issues;
+    } catch (error) {
+      issues = [{ key: '(file)', message: (error as Error).message }];
+    }
+    printCheck(projectConfig, issues);
+    problems += issues.length;
+  }
+
+  const envIssues = SettingsResolver.validateEnv();
+  printCheck(`${APP_CONFIG.SETTINGS_ENV_PREFIX}* environment variables`, envIssues);
+  problems += envIssues.length;
+
+  const configManager = ConfigManager.getInstance();
+  const profileIssues: ConfigIssue[] = [];
+  try {
+    configManager.selectProfile(profileFlag);
+    const profile = configManager.getActiveProfile();
+    printCheck(`Profile: ${profile ? `${profile.name} (via ${profile.selectedBy})` : 'none'}`, profileIssues);
+  } catch (error) {
+    profileIssues.push({ key: 'profile', message: (error as Error).message });
+    printCheck('Profile', profileIssues);
+  }
+  problems += profileIssues.length;
+
+  return problems;
+}
 
 export function createConfigCommand(): Command {
   const command = new Command('config')
@@ -12,8 +120,14 @@ export function createConfigCommand(): Command {
   command
     .command('show')
     .description('Show current configuration settings')
-    .action(async () => {
+    .option('--effective', 'Show the settings in effect and which layer each value came from', false)
+    .action(async (options) => {
       try {
+        if (options.effective) {
+          showEffectiveSettings();
+          return;
+        }
+
         const configManager = ConfigManager.getInstance();
 
         console.log('📋 Current Configuration:');
@@ -28,10 +142,23 @@ export function createConfigCommand(): Command {
         console.log(`   • Log Level: ${config.logLevel}`);
         console.log(`   • Debug Mode: ${config.debug}`);
 
+        const profile = configManager.getActiveProfile();
+        const profileCount = Object.keys(config.profiles).length;
+        console.log('\n👤 Profiles:');
+        console.log(`   • Active: ${profile ? `${profile.name} (via ${profile.selectedBy})` : 'none'}`);
+        console.log(`   • Defined: ${profileCount} (see: sora-dl config profile list)`);
+
         // Show authentication info
         console.log('\n🔐 Authentication:');
-        console.log(`   • Status: ❌ Not supported (cookies removed)`);
-        console.log(`   • Note: Authentication must be provided via --cookies option`);
+        const credentialInfo = new CredentialStore().getInfo();
+        if (credentialInfo) {
+          console.log(`   • Stored Credentials: 🔒 encrypted (${credentialInfo.source}, saved ${new Date(credentialInfo.savedAt).toLocaleString()})`);
+        } else {
+          console.log(`   • Stored Credentials: none (see: sora-dl config auth set)`);
+        }
+        console.log(`   • Note: --cookies, --cookies-file and --from-curl take precedence over stored credentials`);
+        const headerNames = Object.keys(config.requestHeaders);
+        console.log(`   • Request Headers: ${headerNames.length > 0 ? headerNames.join(', ') : 'built-in defaults'}`);
 
         // Show file paths
         console.log('\n📁 File Paths:');
@@ -52,6 +179,7 @@ export function createConfigCommand(): Command {
     .option('--overwrite <boolean>', 'Set overwrite mode (true/false)')
     .option('--log-level <level>', 'Set default log level')
     .option('--debug <boolean>', 'Set debug mode (true/false)')
+    .option('--from-curl <file>', 'Import request headers from a saved "Copy as cURL" command')
     .action(async (options) => {
       try {
         const configManager = ConfigManager.getInstance();
@@ -94,6 +222,16 @@ export function createConfigCommand(): Command {
           console.log(`🔧 Debug mode set to: ${debug}`);
         }
 
+        if (options.fromCurl) {
+          const parsed = loadCurlFile(options.fromCurl);
+          const headers = getPersistableHeaders(parsed.headers);
+          updates.requestHeaders = headers;
+          console.log(`🌐 Request headers set to: ${Object.keys(headers).join(', ') || 'built-in defaults'}`);
+          if (parsed.cookies || parsed.headers['authorization']) {
+            console.log('🔐 Cookies and authorization were NOT saved; pass --from-curl or --cookies when running commands');
+          }
+        }
+
         if (Object.keys(updates).length === 0) {
           console.log('❌ No configuration options provided');
           console.log('💡 Use --help to see available options');
@@ -108,6 +246,69 @@ export function createConfigCommand(): Command {
       }
     });
 
+  command
+    .command('get <key>')
+    .description('Print a setting in effect, or a stored value by dotted path (e.g. profiles.work.outputDir)')
+    .option('--show-origin', 'Also print which layer the setting came from', false)
+    .action(async (key: string, options) => {
+      try {
+        const settingKey = SETTING_KEYS.find(candidate => candidate === key);
+        if (settingKey) {
+          const { values, origins } = getEffectiveSettings();
+          const origin = origins[settingKey];
+          const location = origin.location ? ` ${origin.location}` : '';
+          console.log(formatValue(values[settingKey]) + (options.showOrigin ? `\t← ${SOURCE_LABELS[origin.source]}${location}` : ''));
+          return;
+        }
+
+        if (!CONFIG_KEYS.includes(key.split('.')[0])) {
+          throw createValidationError(`Unknown setting "${key}" (known: ${CONFIG_KEYS.join(', ')})`);
+        }
+        const value = ConfigManager.getInstance().getStoredValue(key);
+        if (value === undefined) {
+          console.error(`❌ ${key} is not set`);
+          process.exit(1);
+        }
+        console.log(formatValue(value));
+      } catch (error) {
+        handleError(error, 'reading configuration');
+      }
+    });
+
+  command
+    .command('unset <key>')
+    .description('Remove a value from the config file (dotted paths allowed) so defaults apply again')
+    .action(async (key: string) => {
+      try {
+        if (!ConfigManager.getInstance().unset(key)) {
+          console.log(`💡 ${key} is not set in ${ConfigManager.getInstance().getConfigPath()}`);
+          return;
+        }
+        console.log(`✅ Removed ${key}`);
+      } catch (error) {
+        handleError(error, 'unsetting configuration');
+      }
+    });
+
+  command
+    .command('validate')
+    .description('Check the config file, .sora-dlrc, environment variables and selected profile')
+    .action(async (_options, cmd: Command) => {
+      try {
+        const problems = validateConfiguration(cmd.optsWithGlobals().profile);
+        if (problems > 0) {
+          console.log(`\n❌ Found ${problems} problem(s); invalid values are ignored until fixed`);
+          process.exit(1);
+        }
+        console.log('\n✅ Configuration is valid');
+      } catch (error) {
+        handleError(error, 'validating configuration');
+      }
+    });
+
+  command.addCommand(createConfigAuthCommand());
+  command.addCommand(createConfigProfileCommand());
+
   // Reset configuration to defaults
   command
     .command('reset')
@@ -140,6 +341,7 @@ export function createConfigCommand(): Command {
 
 📋 SHOW CURRENT CONFIG:
    sora-dl config show
+   sora-dl config show --effective   # where each value comes from
 
 ⚙️  SET CONFIGURATION VALUES:
    sora-dl config set --output-dir ./my-downloads
@@ -147,6 +349,26 @@ export function createConfigCommand(): Command {
    sora-dl config set --overwrite true
    sora-dl config set --log-level debug
    sora-dl config set --debug true
+   sora-dl config set --from-curl ./feed.curl
+
+🔎 INSPECT AND EDIT SINGLE VALUES:
+   sora-dl config get maxConcurrent --show-origin
+   sora-dl config get profiles.work.outputDir
+   sora-dl config unset logLevel
+   sora-dl config validate
+
+🔐 STORED CREDENTIALS (encrypted, passphrase from $SORA_DL_PASSPHRASE or a prompt):
+   sora-dl config auth set --cookies-file cookies.txt
+   sora-dl config auth show
+   sora-dl config auth clear
+
+👤 PROFILES (own output dir, credentials and flag defaults each):
+   sora-dl config profile create work --output-dir ./work --output-template "{username}/{id}.{ext}"
+   sora-dl config profile copy work archive
+   sora-dl config profile use work
+   sora-dl config profile list
+   sora-dl config profile delete archive
+   sora-dl --profile work download feed
 
 🔄 RESET TO DEFAULTS:
    sora-dl config reset --confirm
@@ -6,8 +6,21 @@ import { LocalFeedProcessor } from '../../lib/feed/processor';
 import { log } from '../../logger';
 import { handleError, createValidationError } from '../../utils/common/error-handler';
 import { ERROR_MESSAGES } from '../../config/constants';
-import { setupLogging } from '../logging-setup';
-import { addDownloadFeedOptions, addDownloadUrlOptions, addDownloadLocalOptions } from '../common-options';
+import { NameCollision, VariantSelection, FeedInputFormat, DownloadOptions, VideoMetadata } from '../../types';
+import { SidecarWriters } from '../../lib/download/sidecar-writers';
+import { VIDEO_VARIANTS } from '../../lib/feed/normalize';
+import { FormatUtils } from '../../utils/formatting';
+import { getSettings } from '../settings-setup';
+import { resolveAuth } from '../auth-setup';
+import { createPostFilter, createPostSort, describeFilter } from '../filter-setup';
+import {
+  addDownloadFeedOptions,
+  addDownloadUrlOptions,
+  addDownloadLocalOptions,
+  addDownloadHarOptions,
+  DownloadOptions as DownloadFlags,
+  FilterOptions
+} from '../common-options';
 
 export interface DownloadContext {
   outputDir: string;
@@ -19,6 +32,23 @@ export interface DownloadContext {
   logLevel: string;
 }
 
+/**
+ * Output directory, concurrency, overwrite and logging as resolved from
+ * flags, environment, config files and defaults.
+ */
+export function getDownloadContext(options: { verbose?: boolean }): DownloadContext {
+  const settings = getSettings();
+  return {
+    outputDir: settings.outputDir,
+    overwrite: settings.overwrite,
+    concurrent: settings.maxConcurrent,
+    verbose: !!options.verbose,
+    debug: settings.debug,
+    logToFile: settings.logToFile,
+    logLevel: settings.logLevel
+  };
+}
+
 export function printDownloadHeader(context: DownloadContext, extraInfo?: Record<string, string>) {
   console.log(`📁 Output directory: ${path.resolve(context.outputDir)}`);
   console.log(`🔄 Concurrent downloads: ${context.concurrent}`);
@@ -33,7 +63,115 @@ export function printDownloadHeader(context: DownloadContext, extraInfo?: Record
   if (context.overwrite) console.log('⚠️  Overwrite mode enabled');
 }
 
-export function printDownloadSummary(fileCount: number, duration: number, outputDir: string) {
+type MetadataOutputOptions = Pick<DownloadOptions, 'embedMetadata' | 'sidecarFormats' | 'nfoType' | 'subtitleDetails'>;
+
+/**
+ * Sidecar formats and MP4 tagging from --write-sidecars, --nfo-type,
+ * --subtitle-details and --embed-metadata.
+ */
+function getMetadataOutputOptions(options: {
+  embedMetadata?: boolean;
+  writeSidecars?: string;
+  nfoType?: string;
+  subtitleDetails?: boolean;
+}): MetadataOutputOptions {
+  const extraFormats = options.writeSidecars !== undefined ? SidecarWriters.parseFormats(options.writeSidecars) : [];
+  return {
+    embedMetadata: options.embedMetadata,
+    sidecarFormats: [...new Set([SidecarWriters.REQUIRED_FORMAT, ...extraFormats])],
+    nfoType: SidecarWriters.parseNfoType(options.nfoType || 'movie'),
+    subtitleDetails: options.subtitleDetails
+  };
+}
+
+function describeMetadataOutput(metadata: MetadataOutputOptions): Record<string, string> {
+  const formats = (metadata.sidecarFormats || []).map(format => {
+    if (format === 'nfo') return `nfo (${metadata.nfoType})`;
+    if ((format === 'srt' || format === 'vtt') && metadata.subtitleDetails) return `${format} (with author and stats)`;
+    return format;
+  });
+  return {
+    '📝 Sidecars': formats.join(', '),
+    ...(metadata.embedMetadata ? { '🏷️  Embedded metadata': 'title, author, prompt, date, permalink, cover art' } : {})
+  };
+}
+
+export function parseMaxPerHost(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const maxPerHost = parseInt(value);
+  if (isNaN(maxPerHost) || maxPerHost < 1) {
+    console.error('❌ --max-per-host must be a positive number');
+    process.exit(1);
+  }
+  return maxPerHost;
+}
+
+export function parseVariant(value: string | undefined): VariantSelection {
+  const variant = (value || 'source') as VariantSelection;
+  if (!VIDEO_VARIANTS.includes(variant)) {
+    console.error(`❌ --variant must be one of: ${VIDEO_VARIANTS.join(', ')}`);
+    process.exit(1);
+  }
+  return variant;
+}
+
+export function getPolitenessOptions(options: { limitRate?: string; requestDelay?: string; requestJitter?: string }) {
+  let limitRate: number | undefined;
+  if (options.limitRate !== undefined) {
+    limitRate = FormatUtils.parseBytes(options.limitRate);
+    if (isNaN(limitRate) || limitRate < 1) {
+      console.error('❌ --limit-rate must be a byte rate such as 500K or 2M');
+      process.exit(1);
+    }
+  }
+
+  const requestDelayMs = parseInt(options.requestDelay ?? '0');
+  const requestJitterMs = parseInt(options.requestJitter ?? '0');
+  if (isNaN(requestDelayMs) || requestDelayMs < 0 || isNaN(requestJitterMs) || requestJitterMs < 0) {
+    console.error('❌ --request-delay and --request-jitter must be non-negative numbers');
+    process.exit(1);
+  }
+
+  return { limitRate, requestDelayMs, requestJitterMs };
+}
+
+export function describePoliteness(politeness: { limitRate?: number; requestDelayMs: number; requestJitterMs: number }): Record<string, string> {
+  const info: Record<string, string> = {};
+  if (politeness.limitRate) {
+    info['🐢 Rate limit'] = FormatUtils.formatSpeed(politeness.limitRate);
+  }
+  if (politeness.requestDelayMs > 0 || politeness.requestJitterMs > 0) {
+    info['⏱️  Request pacing'] = `${politeness.requestDelayMs}ms + up to ${politeness.requestJitterMs}ms jitter`;
+  }
+  return info;
+}
+
+export function getArchiveOptions(options: { downloadArchive?: string; archive?: boolean }) {
+  return {
+    archivePath: options.downloadArchive,
+    useArchive: options.archive !== false
+  };
+}
+
+export function prepareArchive(
+  target: { rebuildArchive(): number; getArchivePath(): string | undefined },
+  options: { rebuildArchive?: boolean }
+): void {
+  const archivePath = target.getArchivePath();
+  if (!archivePath) {
+    console.log('🗂️  Download archive: disabled');
+    return;
+  }
+
+  if (options.rebuildArchive) {
+    const entries = target.rebuildArchive();
+    console.log(`🗂️  Rebuilt download archive with ${entries} entries: ${path.resolve(archivePath)}`);
+  } else {
+    console.log(`🗂️  Download archive: ${path.resolve(archivePath)}`);
+  }
+}
+
+export function printDownloadSummary(fileCount: number, duration: number, outputDir: string, collisions: NameCollision[] = []) {
   console.log(`\n✅ Download completed successfully!`);
   console.log(`📊 Summary:`);
   console.log(`   • Files downloaded: ${fileCount}`);
@@ -41,6 +179,16 @@ export function printDownloadSummary(fileCount: number, duration: number, output
   console.log(`   • Location: ${path.resolve(outputDir)}`);
   console.log(`   • Videos: ${path.resolve(outputDir, 'videos')}`);
   console.log(`   • Metadata: ${path.resolve(outputDir, 'metadata')}`);
+
+  if (collisions.length > 0) {
+    console.log(`\n⚠️  Name collisions resolved: ${collisions.length}`);
+    collisions.slice(0, 5).forEach(collision => {
+      console.log(`   • ${collision.videoId} → ${path.basename(collision.resolvedPath)} (${path.basename(collision.requestedPath)} belongs to ${collision.conflictingId})`);
+    });
+    if (collisions.length > 5) {
+      console.log(`   ... and ${collisions.length - 5} more`);
+    }
+  }
 }
 
 export function createDownloadFeedCommand(): Command {
@@ -50,32 +198,56 @@ export function createDownloadFeedCommand(): Command {
   addDownloadFeedOptions(command)
     .action(async (options) => {
       try {
-        const context: DownloadContext = {
-          outputDir: options.outputDir,
-          overwrite: options.overwrite,
-          concurrent: parseInt(options.concurrent),
-          verbose: options.verbose,
-          debug: options.debug,
-          logToFile: options.logToFile,
-          logLevel: options.logLevel
-        };
+        const context = getDownloadContext(options);
+
+        const maxPages = parseInt(options.maxPages);
+        if (isNaN(maxPages) || maxPages < 1) {
+          console.error('❌ --max-pages must be a positive number');
+          process.exit(1);
+        }
 
-        printDownloadHeader(context);
+        const politeness = getPolitenessOptions(options);
+        const variant = parseVariant(options.variant);
+        const filter = createPostFilter(options);
+        const sort = createPostSort(options);
+        const metadataOutput = getMetadataOutputOptions(options);
 
-        const downloader = new SoraVideoDownloader(options.cookies, {
-          outputDir: options.outputDir,
-          overwrite: options.overwrite
+        printDownloadHeader(context, {
+          '📄 Max feed pages': String(maxPages),
+          '🏷️  Output template': options.outputTemplate,
+          '🎞️  Variant': variant,
+          ...describeMetadataOutput(metadataOutput),
+          ...describeFilter(filter, sort),
+          ...describePoliteness(politeness)
         });
 
+        const auth = resolveAuth(options);
+        const downloader = new SoraVideoDownloader(auth.cookies, {
+          outputDir: context.outputDir,
+          overwrite: context.overwrite,
+          requestTimeoutMs: getSettings().requestTimeoutMs,
+          outputTemplate: options.outputTemplate,
+          maxPerHost: parseMaxPerHost(options.maxPerHost),
+          variant,
+          ...metadataOutput,
+          ...politeness,
+          ...getArchiveOptions(options)
+        }, auth);
+        prepareArchive(downloader, options);
+
         let downloadedFiles: string[] = [];
         const startTime = Date.now();
 
         if (options.all) {
-          console.log('📥 Downloading all videos from remote feed...');
-          downloadedFiles = await downloader.downloadAllVideos(context.concurrent);
+          console.log(`📥 Downloading all videos from remote feed (up to ${maxPages} pages)...`);
+          downloadedFiles = await downloader.downloadAllVideos(context.concurrent, maxPages, filter, sort);
         } else {
-          console.log(`📥 Downloading ${parseInt(options.count)} most recent videos from remote feed...`);
-          downloadedFiles = await downloader.downloadRecentVideos(parseInt(options.count), context.concurrent);
+          if (sort) {
+            console.log(`📥 Ranking up to ${maxPages} feed pages by ${sort.key}, then downloading the top ${parseInt(options.count)} ${filter ? 'matching ' : ''}videos...`);
+          } else {
+            console.log(`📥 Downloading ${parseInt(options.count)} most recent ${filter ? 'matching ' : ''}videos from remote feed...`);
+          }
+          downloadedFiles = await downloader.downloadRecentVideos(parseInt(options.count), context.concurrent, maxPages, filter, sort);
         }
 
         const duration = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -85,10 +257,12 @@ export function createDownloadFeedCommand(): Command {
           console.log('   • No cookies provided (use --cookies option)');
           console.log('   • Network connection issues');
           console.log('   • No videos available in the feed');
+          if (filter) console.log('   • No posts matched the filter (check the 🔎 Filter line above)');
+          console.log('   • All videos are already in the download archive (use --no-archive to ignore it)');
           console.log('\n💡 Try providing authentication cookies:');
           console.log('   sora-dl download feed --cookies "your-cookie-string"');
         } else {
-          printDownloadSummary(downloadedFiles.length, parseFloat(duration), context.outputDir);
+          printDownloadSummary(downloadedFiles.length, parseFloat(duration), context.outputDir, downloader.getCollisions());
         }
 
       } catch (error) {
@@ -113,9 +287,14 @@ export function createDownloadUrlCommand(): Command {
           process.exit(1);
         }
 
+        const politeness = getPolitenessOptions({ limitRate: options.limitRate });
+        const context: DownloadContext = { ...getDownloadContext(options), concurrent: 1 };
         const downloader = new SoraVideoDownloader(undefined, {
-          outputDir: options.outputDir,
-          overwrite: options.overwrite
+          outputDir: context.outputDir,
+          overwrite: context.overwrite,
+          requestTimeoutMs: getSettings().requestTimeoutMs,
+          outputTemplate: options.outputTemplate,
+          ...politeness
         });
 
         const video = {
@@ -126,26 +305,17 @@ export function createDownloadUrlCommand(): Command {
           generationId: undefined
         };
 
-        const context: DownloadContext = {
-          outputDir: options.outputDir,
-          overwrite: options.overwrite,
-          concurrent: 1,
-          verbose: false,
-          debug: false,
-          logToFile: false,
-          logLevel: 'info'
-        };
-
         printDownloadHeader(context, {
           '📥 Downloading video': video.title,
-          '🔗 URL': options.url
+          '🔗 URL': options.url,
+          ...describePoliteness(politeness)
         });
 
         const startTime = Date.now();
         const filePath = await downloader.downloadVideo(video);
         const duration = ((Date.now() - startTime) / 1000).toFixed(1);
 
-        printDownloadSummary(1, parseFloat(duration), context.outputDir);
+        printDownloadSummary(1, parseFloat(duration), context.outputDir, downloader.getCollisions());
 
       } catch (error) {
         handleError(error, 'downloading video');
@@ -155,63 +325,80 @@ export function createDownloadUrlCommand(): Command {
   return command;
 }
 
-export function createDownloadLocalCommand(): Command {
-  const command = new Command('local')
-    .description('Download videos from a local feed.json file');
-  
-  addDownloadLocalOptions(command)
-    .action(async (feedFile, options) => {
-      try {
-        // Setup logging if debug options are explicitly provided
-        if (options.debug || options.logToFile || (options.logLevel && options.logLevel !== 'info')) {
-          setupLogging({
-            debug: options.debug,
-            logToFile: options.logToFile,
-            logLevel: options.logLevel,
-            verbose: options.verbose
-          });
-        }
+// Flags of `download local` and `download har`; numbers arrive as strings from commander
+type LocalFeedDownloadFlags = Omit<DownloadFlags, 'count' | 'maxPerHost'> & FilterOptions & {
+  count: string;
+  maxPerHost?: string;
+  list?: boolean;
+};
 
-        if (!fs.existsSync(feedFile)) {
-          console.error(ERROR_MESSAGES.FEED_NOT_FOUND(feedFile));
-          process.exit(1);
-        }
+/**
+ * Shared by `download local` and `download har`: both feed posts from a file
+ * through the same queue, archive and naming rules.
+ */
+async function runLocalFeedDownload(feedFile: string, options: LocalFeedDownloadFlags, format: FeedInputFormat): Promise<void> {
+  if (!fs.existsSync(feedFile)) {
+    console.error(ERROR_MESSAGES.FEED_NOT_FOUND(feedFile));
+    process.exit(1);
+  }
 
-        const processor = new LocalFeedProcessor(feedFile, options.outputDir);
-        const context: DownloadContext = {
-          outputDir: options.outputDir,
-          overwrite: options.overwrite,
-          concurrent: parseInt(options.concurrent),
-          verbose: options.verbose,
-          debug: false,
-          logToFile: false,
-          logLevel: 'info'
-        };
+  const politeness = getPolitenessOptions(options);
+  const variant = parseVariant(options.variant);
+  const filter = createPostFilter(options);
+  const sort = createPostSort(options);
+  const metadataOutput = getMetadataOutputOptions(options);
+  const context = getDownloadContext(options);
+  const processor = new LocalFeedProcessor(feedFile, context.outputDir, {
+    overwrite: context.overwrite,
+    requestTimeoutMs: getSettings().requestTimeoutMs,
+    outputTemplate: options.outputTemplate,
+    maxPerHost: parseMaxPerHost(options.maxPerHost),
+    variant,
+    ...metadataOutput,
+    ...politeness,
+    ...getArchiveOptions(options)
+  }, format, filter, sort);
+  printDownloadHeader(context, {
+    [format === 'har' ? '📄 HAR file' : '📄 Feed file']: path.resolve(feedFile),
+    '🏷️  Output template': processor.getOutputTemplate(),
+    '🎞️  Variant': variant,
+    ...describeMetadataOutput(metadataOutput),
+    ...describeFilter(filter, sort),
+    ...describePoliteness(politeness)
+  });
 
-        printDownloadHeader(context, {
-          '📄 Feed file': path.resolve(feedFile)
-        });
+  if (options.list) {
+    console.log('📋 Listing posts in feed...');
+    await processor.listPosts();
+    return;
+  }
 
-        if (options.list) {
-          console.log('📋 Listing posts in feed...');
-          processor.listPosts();
-          return;
-        }
+  prepareArchive(processor, options);
 
-        let processedMetadata: any[] = [];
-        const startTime = Date.now();
+  let processedMetadata: VideoMetadata[] = [];
+  const startTime = Date.now();
 
-        if (options.all) {
-          console.log('📥 Processing all posts in local feed...');
-          processedMetadata = await processor.processAllPosts(context.concurrent);
-        } else {
-          console.log(`📥 Processing ${parseInt(options.count)} most recent posts in local feed...`);
-          processedMetadata = await processor.processRecentPosts(parseInt(options.count), context.concurrent);
-        }
+  if (options.all) {
+    console.log('📥 Processing all posts in local feed...');
+    processedMetadata = await processor.processAllPosts(context.concurrent);
+  } else {
+    const order = sort ? `top ${parseInt(options.count)}` : `${parseInt(options.count)} most recent`;
+    console.log(`📥 Processing ${order} ${filter ? 'matching ' : ''}posts in local feed...`);
+    processedMetadata = await processor.processRecentPosts(parseInt(options.count), context.concurrent);
+  }
 
-        const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-        printDownloadSummary(processedMetadata.length, parseFloat(duration), context.outputDir);
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  printDownloadSummary(processedMetadata.length, parseFloat(duration), context.outputDir, processor.getCollisions());
+}
 
+export function createDownloadLocalCommand(): Command {
+  const command = new Command('local')
+    .description('Download videos from a local feed.json file');
+  
+  addDownloadLocalOptions(command)
+    .action(async (feedFile, options) => {
+      try {
+        await runLocalFeedDownload(feedFile, options, 'json');
       } catch (error) {
         handleError(error, 'processing local feed');
       }
@@ -219,3 +406,19 @@ export function createDownloadLocalCommand(): Command {
 
   return command;
 }
+
+export function createDownloadHarCommand(): Command {
+  const command = new Command('har')
+    .description('Download videos from feed and post responses captured in a browser HAR file');
+  
+  addDownloadHarOptions(command)
+    .action(async (harFile, options) => {
+      try {
+        await runLocalFeedDownload(harFile, options, 'har');
+      } catch (error) {
+        handleError(error, 'processing HAR capture');
+      }
+    });
+
+  return command;
+}
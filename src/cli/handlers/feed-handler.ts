@@ -4,6 +4,7 @@ import * as path from 'path';
 import { SoraAPI } from '../../lib/api';
 import { handleError } from '../../utils/common/error-handler';
 import { addFeedOptions } from '../common-options';
+import { resolveAuth } from '../auth-setup';
 import { FeedMonitor } from '../../utils/monitoring/monitor';
 import { FeedChartGenerator } from '../../utils/monitoring/chart';
 
@@ -31,7 +32,9 @@ export function createFeedCommand(): Command {
             interval: (options.interval || 10) * 1000, // Convert to milliseconds
             iterations: options.iterations || 10,
             outputDir: options.output || './feed-monitor-results',
-            cookies: options.cookies
+            cookies: options.cookies,
+            cookiesFile: options.cookiesFile,
+            fromCurl: options.fromCurl
           });
 
           await monitor.run();
@@ -39,10 +42,11 @@ export function createFeedCommand(): Command {
         }
 
         // Default behavior: fetch and display raw feed
-        const api = new SoraAPI(options.cookies);
+        const auth = resolveAuth(options);
+        const api = new SoraAPI(auth.cookies, { headers: auth.headers, cookieJar: auth.cookieJar });
         console.log('Fetching raw Sora feed...');
 
-        const rawFeed = await api.getRawFeed();
+        const rawFeed = await api.getRawFeed(options.cursor);
 
         // Display the raw feed JSON
         const jsonOutput = options.pretty
@@ -63,8 +67,7 @@ export function createFeedCommand(): Command {
             item.post?.attachments?.some((att: any) => att.kind === 'sora')
           );
           console.log(`   • Video items: ${videoItems.length}`);
-
-          // Note: cursor information would be in the response if available
+          console.log(`   • Next cursor: ${rawFeed.cursor || 'none (last page)'}`);
         }
 
         // Save to file if requested
@@ -0,0 +1,251 @@
+import { Command } from 'commander';
+import { log } from '../../logger';
+import { LibraryIndex, LibraryQuery, LibrarySortKey, LIBRARY_SORT_KEYS } from '../../lib/services/library-index';
+import { Sidecar } from '../../lib/download/sidecar';
+import { PostFilter } from '../../lib/feed/filter';
+import { LibraryEntry, VideoSidecar } from '../../types';
+import { APP_CONFIG, FILE_CONFIG } from '../../config/constants';
+import { FileUtils } from '../../utils/common/file-utils';
+import { FormatUtils } from '../../utils/formatting';
+import { handleError, createValidationError } from '../../utils/common/error-handler';
+import { getSettings } from '../settings-setup';
+import { addLibraryOptions, addLibraryQueryOptions } from '../common-options';
+
+// Flags of `library list` and `library search`
+interface LibraryQueryFlags {
+  author?: string;
+  variant?: string;
+  sort?: string;
+  reverse?: boolean;
+  limit: string;
+  all?: boolean;
+  json?: boolean;
+}
+
+interface LibraryContext {
+  outputDir: string;
+  library: LibraryIndex;
+}
+
+function openLibrary(): LibraryContext {
+  const outputDir = getSettings().outputDir;
+  return { outputDir, library: new LibraryIndex(LibraryIndex.getDefaultPath(outputDir)) };
+}
+
+// An empty index next to existing downloads predates the library or was deleted
+function printRebuildHint(context: LibraryContext): void {
+  if (context.library.size() === 0 && FileUtils.fileExists(FileUtils.joinPaths(context.outputDir, FILE_CONFIG.DIRECTORIES.METADATA))) {
+    console.log(`💡 Index existing downloads with: ${APP_CONFIG.NAME} library rebuild`);
+  }
+}
+
+function parseQuery(options: LibraryQueryFlags, text?: RegExp): LibraryQuery {
+  const query: LibraryQuery = { text, author: options.author, reverse: !!options.reverse };
+
+  if (options.sort !== undefined) {
+    if (!(LIBRARY_SORT_KEYS as readonly string[]).includes(options.sort)) {
+      throw createValidationError(`--sort must be one of: ${LIBRARY_SORT_KEYS.join(', ')}`, { value: options.sort });
+    }
+    query.sort = options.sort as LibrarySortKey;
+  }
+  if (options.variant !== undefined) {
+    if (options.variant !== 'source' && options.variant !== 'watermarked') {
+      throw createValidationError('--variant must be source or watermarked', { value: options.variant });
+    }
+    query.variant = options.variant;
+  }
+  if (!options.all) {
+    query.limit = Number(options.limit);
+    if (!Number.isInteger(query.limit) || query.limit < 1) {
+      throw createValidationError('--limit must be a positive number', { value: options.limit });
+    }
+  }
+  return query;
+}
+
+function describeEntry(entry: LibraryEntry): string {
+  const parts = [
+    entry.author ? `@${entry.author}` : undefined,
+    entry.posted_at ? `posted ${entry.posted_at.slice(0, 10)}` : undefined,
+    entry.stats?.like_count !== undefined ? `${entry.stats.like_count} likes` : undefined,
+    entry.stats?.view_count !== undefined ? `${entry.stats.view_count} views` : undefined,
+    entry.duration ? `${entry.duration.toFixed(1)}s` : undefined,
+    entry.bytes ? FormatUtils.formatBytes(entry.bytes) : undefined
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+function printEntries(entries: LibraryEntry[], total: number, options: { json?: boolean }): void {
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  entries.forEach((entry, index) => {
+    const variant = entry.variant === 'watermarked' ? ' [watermarked]' : '';
+    console.log(`\n${index + 1}. ${entry.id}${variant}`);
+    console.log(`   ${FormatUtils.truncateString(entry.title, 100)}`);
+    const details = describeEntry(entry);
+    if (details) console.log(`   ${details}`);
+    console.log(`   📁 ${entry.video_file}`);
+  });
+
+  const hidden = total - entries.length;
+  console.log(`\n📚 Showing ${entries.length} of ${total} ${total === 1 ? 'video' : 'videos'}${hidden > 0 ? ' (use --all or --limit to see more)' : ''}`);
+}
+
+function readSidecar(context: LibraryContext, entry: LibraryEntry): VideoSidecar | undefined {
+  if (!entry.metadata_file) return undefined;
+  const metadataPath = FileUtils.joinPaths(context.outputDir, entry.metadata_file);
+  if (!FileUtils.fileExists(metadataPath)) return undefined;
+  try {
+    return Sidecar.read(metadataPath);
+  } catch (error) {
+    log.warn('Unreadable metadata sidecar, showing the index entry only', { metadataPath, error: (error as Error).message });
+    return undefined;
+  }
+}
+
+function printEntry(context: LibraryContext, entry: LibraryEntry): void {
+  const sidecar = readSidecar(context, entry);
+  const post = sidecar?.post;
+  const fields: [string, string | number | undefined][] = [
+    ['Variant', entry.variant],
+    ['Title', entry.title],
+    ['Author', entry.author],
+    ['Permalink', entry.permalink],
+    ['Posted', entry.posted_at],
+    ['Downloaded', entry.downloaded_at],
+    ['Resolution', entry.width && entry.height ? `${entry.width}x${entry.height}` : undefined],
+    ['Duration', entry.duration ? `${entry.duration.toFixed(2)}s` : undefined],
+    ['Likes', entry.stats?.like_count],
+    ['Views', entry.stats?.view_count],
+    ['Remixes', entry.stats?.remix_count],
+    ['Replies', entry.stats?.reply_count],
+    ['Remix of', post?.parent_post_id || undefined],
+    ['Video', entry.bytes ? `${entry.video_file} (${FormatUtils.formatBytes(entry.bytes)})` : entry.video_file],
+    ['Thumbnail', entry.thumbnail_file],
+    ['Metadata', entry.metadata_file]
+  ];
+
+  console.log(`\n🎬 ${entry.id}`);
+  for (const [label, value] of fields) {
+    if (value !== undefined && value !== '') console.log(`   ${`${label}:`.padEnd(12)} ${value}`);
+  }
+  if (entry.prompt) {
+    console.log(`\n   Prompt:\n   ${entry.prompt.split('\n').join('\n   ')}`);
+  }
+}
+
+export function createLibraryCommand(): Command {
+  const command = new Command('library')
+    .description(`Query the index of downloaded videos (${FILE_CONFIG.LIBRARY_FILE} in the output directory)`);
+
+  addLibraryQueryOptions(command.command('list'))
+    .description('List downloaded videos, most recently downloaded first')
+    .action(async (options) => {
+      try {
+        const context = openLibrary();
+        const query = parseQuery(options);
+        const matches = context.library.query({ ...query, limit: undefined });
+        printEntries(matches.slice(0, query.limit), matches.length, options);
+        if (!options.json) printRebuildHint(context);
+      } catch (error) {
+        handleError(error, 'listing library');
+      }
+    });
+
+  addLibraryQueryOptions(command.command('search <pattern>'))
+    .description('Find videos whose id, title, prompt or author matches (case-insensitive; /regex/flags to set flags)')
+    .action(async (pattern: string, options) => {
+      try {
+        const context = openLibrary();
+        const query = parseQuery(options, PostFilter.parsePattern(pattern, 'Search pattern'));
+        const matches = context.library.query({ ...query, limit: undefined });
+        if (matches.length === 0 && !options.json) {
+          console.log(`🔎 No videos match ${query.text}`);
+          printRebuildHint(context);
+          return;
+        }
+        printEntries(matches.slice(0, query.limit), matches.length, options);
+      } catch (error) {
+        handleError(error, 'searching library');
+      }
+    });
+
+  addLibraryOptions(command.command('show <id>'))
+    .description('Show everything recorded about a video (a unique id prefix is enough)')
+    .action(async (id: string, options) => {
+      try {
+        const context = openLibrary();
+        const entries = context.library.find(id);
+        if (entries.length === 0) {
+          if (context.library.getEntries().some(entry => entry.id.startsWith(id))) {
+            throw createValidationError(`"${id}" matches more than one video; give more of the id`);
+          }
+          printRebuildHint(context);
+          throw createValidationError(`No downloaded video with id "${id}" in ${context.library.getPath()}`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(entries.map(entry => ({ ...entry, sidecar: readSidecar(context, entry) })), null, 2));
+          return;
+        }
+        entries.forEach(entry => printEntry(context, entry));
+      } catch (error) {
+        handleError(error, 'showing library entry');
+      }
+    });
+
+  addLibraryOptions(command.command('stats'))
+    .description('Summarize the library: counts, size, duration, dates and top authors')
+    .action(async (options) => {
+      try {
+        const context = openLibrary();
+        const stats = context.library.getStats();
+        if (options.json) {
+          console.log(JSON.stringify(stats, null, 2));
+          return;
+        }
+
+        const variants = Object.entries(stats.variants).map(([variant, count]) => `${variant} ${count}`).join(', ');
+        console.log(`📚 Library: ${context.library.getPath()}`);
+        console.log(`   Videos: ${stats.entries} (${stats.posts} posts${variants ? `; ${variants}` : ''})`);
+        console.log(`   Size: ${FormatUtils.formatBytes(stats.totalBytes)} · Duration: ${FormatUtils.formatDuration(Math.round(stats.totalDuration * 1000))}`);
+        if (stats.firstPostedAt) {
+          console.log(`   Posted: ${stats.firstPostedAt.slice(0, 10)} → ${stats.lastPostedAt?.slice(0, 10)}`);
+        }
+        if (stats.firstDownloadedAt) {
+          console.log(`   Downloaded: ${stats.firstDownloadedAt.slice(0, 10)} → ${stats.lastDownloadedAt?.slice(0, 10)}`);
+        }
+        if (stats.authors > 0) {
+          const top = stats.topAuthors.map(({ author, count }) => `${author} (${count})`).join(', ');
+          console.log(`   Authors: ${stats.authors}; most downloaded: ${top}`);
+        }
+        printRebuildHint(context);
+      } catch (error) {
+        handleError(error, 'summarizing library');
+      }
+    });
+
+  addLibraryOptions(command.command('rebuild'))
+    .description('Recreate the index from the metadata sidecars in the output directory')
+    .action(async (options) => {
+      try {
+        const context = openLibrary();
+        const result = context.library.rebuildFromMetadata(context.outputDir);
+        if (options.json) {
+          console.log(JSON.stringify({ path: context.library.getPath(), ...result }, null, 2));
+          return;
+        }
+        console.log(`✅ Indexed ${result.entries} videos in ${context.library.getPath()}`);
+        if (result.skipped > 0) {
+          console.log(`⚠️  Skipped ${result.skipped} unreadable metadata files (run with --debug for details)`);
+        }
+      } catch (error) {
+        handleError(error, 'rebuilding library');
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,217 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { ConfigManager, ProfileConfig } from '../../lib/services/config-manager';
+import { SettingsResolver } from '../../lib/services/settings-resolver';
+import { CredentialStore } from '../../lib/auth/credential-store';
+import { FileUtils } from '../../utils/common/file-utils';
+import { ValidationUtils } from '../../utils/validation';
+import { handleError, createValidationError } from '../../utils/common/error-handler';
+import { APP_CONFIG } from '../../config/constants';
+
+function collectOption(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+// "max-pages=5" → ["maxPages", "5"]; "true"/"false" become booleans for switches
+function parseOptionAssignment(assignment: string): [string, string | boolean] {
+  const separator = assignment.indexOf('=');
+  if (separator <= 0) {
+    throw createValidationError(`Invalid --option "${assignment}": expected name=value`);
+  }
+
+  let flag = assignment.slice(0, separator).trim().replace(/^--/, '');
+  let value: string | boolean = assignment.slice(separator + 1);
+  value = value === 'true' ? true : value === 'false' ? false : value;
+
+  // Negated switches are stored under commander's attribute: no-archive=true → archive=false
+  if (flag.startsWith('no-') && typeof value === 'boolean') {
+    flag = flag.slice(3);
+    value = !value;
+  }
+
+  const name = flag.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+  if (SettingsResolver.isSettingOption(name)) {
+    throw createValidationError(`"${name}" is a setting: use the matching config profile create flag instead of --option`);
+  }
+  return [name, value];
+}
+
+// Flags of `config profile create`
+interface ProfileFlags {
+  outputDir?: string;
+  maxConcurrent?: string;
+  overwrite?: string;
+  outputTemplate?: string;
+  variant?: string;
+  cookiesFile?: string;
+  option?: string[];
+}
+
+function buildProfile(options: ProfileFlags): ProfileConfig {
+  const profile: ProfileConfig = {};
+  const flagDefaults: NonNullable<ProfileConfig['options']> = {};
+
+  if (options.outputDir !== undefined) profile.outputDir = options.outputDir;
+  if (options.maxConcurrent !== undefined) profile.maxConcurrent = Number(options.maxConcurrent);
+  if (options.overwrite !== undefined) profile.overwrite = ValidationUtils.validateBoolean(options.overwrite, '--overwrite');
+  if (options.outputTemplate !== undefined) flagDefaults.outputTemplate = options.outputTemplate;
+  if (options.variant !== undefined) flagDefaults.variant = options.variant;
+  if (options.cookiesFile !== undefined) flagDefaults.cookiesFile = options.cookiesFile;
+  for (const assignment of options.option || []) {
+    const [name, value] = parseOptionAssignment(assignment);
+    flagDefaults[name] = value;
+  }
+
+  if (Object.keys(flagDefaults).length > 0) profile.options = flagDefaults;
+  return profile;
+}
+
+function describeProfile(profile: ProfileConfig): string[] {
+  const lines: string[] = [];
+  const { options, ...settings } = profile;
+  for (const [key, value] of Object.entries(settings)) {
+    lines.push(`${key}: ${JSON.stringify(value)}`);
+  }
+  for (const [name, value] of Object.entries(options || {})) {
+    lines.push(`--${name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)} ${JSON.stringify(value)}`);
+  }
+  return lines;
+}
+
+export function createConfigProfileCommand(): Command {
+  const command = new Command('profile')
+    .description('Manage named profiles (per-account or per-archive settings and credentials)');
+
+  command
+    .command('list')
+    .description('List profiles and mark the active one')
+    .action(async () => {
+      try {
+        const configManager = ConfigManager.getInstance();
+        const profiles = configManager.getProfiles();
+        const names = Object.keys(profiles).sort();
+        if (names.length === 0) {
+          console.log('👤 No profiles');
+          console.log('💡 Create one with: sora-dl config profile create work --output-dir ./work');
+          return;
+        }
+
+        const active = configManager.getActiveProfile();
+        console.log('👤 Profiles:');
+        for (const name of names) {
+          const marker = active?.name === name ? ` (active, via ${active.selectedBy})` : '';
+          const credentials = FileUtils.fileExists(CredentialStore.getDefaultPath(name)) ? '🔒 credentials stored' : 'no stored credentials';
+          console.log(`\n   • ${name}${marker} — ${credentials}`);
+          for (const line of describeProfile(profiles[name])) {
+            console.log(`       ${line}`);
+          }
+        }
+      } catch (error) {
+        handleError(error, 'listing profiles');
+      }
+    });
+
+  command
+    .command('create <name>')
+    .description('Create a profile; unset values fall back to the user config')
+    .option('--output-dir <dir>', 'Output directory for this profile')
+    .option('--max-concurrent <number>', 'Maximum concurrent downloads')
+    .option('--overwrite <boolean>', 'Overwrite existing files (true/false, yes/no or 1/0)')
+    .option('--output-template <template>', 'Default --output-template')
+    .option('--variant <variant>', 'Default --variant')
+    .option('--cookies-file <file>', 'Default --cookies-file')
+    .option('--option <name=value>', 'Default for any other command flag, e.g. max-pages=5 (repeatable)', collectOption)
+    .option('--force', 'Replace an existing profile', false)
+    .action(async (name: string, options) => {
+      try {
+        const configManager = ConfigManager.getInstance();
+        ConfigManager.validateProfileName(name);
+        if (configManager.getProfile(name) && !options.force) {
+          throw createValidationError(`Profile "${name}" already exists (use --force to replace it)`);
+        }
+
+        configManager.saveProfile(name, buildProfile(options));
+        console.log(`✅ Created profile "${name}"`);
+        console.log(`💡 Use it with: sora-dl --profile ${name} <command>, or make it the default with: sora-dl config profile use ${name}`);
+        console.log(`🔐 Store its credentials with: sora-dl --profile ${name} config auth set`);
+      } catch (error) {
+        handleError(error, 'creating profile');
+      }
+    });
+
+  command
+    .command('copy <source> <target>')
+    .description('Copy a profile under a new name')
+    .option('--with-credentials', 'Also copy the encrypted credentials (same passphrase)', false)
+    .option('--force', 'Replace an existing target profile', false)
+    .action(async (source: string, target: string, options) => {
+      try {
+        const configManager = ConfigManager.getInstance();
+        const profile = configManager.getProfile(source);
+        if (!profile) {
+          throw createValidationError(`Unknown profile "${source}"`);
+        }
+        ConfigManager.validateProfileName(target);
+        if (configManager.getProfile(target) && !options.force) {
+          throw createValidationError(`Profile "${target}" already exists (use --force to replace it)`);
+        }
+
+        configManager.saveProfile(target, JSON.parse(JSON.stringify(profile)));
+        console.log(`✅ Copied profile "${source}" to "${target}"`);
+
+        const sourceCredentials = CredentialStore.getDefaultPath(source);
+        if (options.withCredentials && FileUtils.fileExists(sourceCredentials)) {
+          const targetCredentials = CredentialStore.getDefaultPath(target);
+          fs.copyFileSync(sourceCredentials, targetCredentials);
+          fs.chmodSync(targetCredentials, 0o600);
+          console.log(`🔐 Copied credentials to ${targetCredentials}`);
+        }
+      } catch (error) {
+        handleError(error, 'copying profile');
+      }
+    });
+
+  command
+    .command('delete <name>')
+    .description('Delete a profile and its stored credentials')
+    .action(async (name: string) => {
+      try {
+        if (!ConfigManager.getInstance().deleteProfile(name)) {
+          throw createValidationError(`Unknown profile "${name}"`);
+        }
+        console.log(`🗑️  Deleted profile "${name}"`);
+
+        const store = new CredentialStore(CredentialStore.getDefaultPath(name));
+        if (store.clear()) {
+          console.log(`🗑️  Deleted ${store.getPath()}`);
+        }
+      } catch (error) {
+        handleError(error, 'deleting profile');
+      }
+    });
+
+  command
+    .command('use [name]')
+    .description(`Set the profile used when neither --profile nor $${APP_CONFIG.PROFILE_ENV} is given`)
+    .option('--clear', 'Stop using a default profile', false)
+    .action(async (name: string | undefined, options) => {
+      try {
+        const configManager = ConfigManager.getInstance();
+        if (options.clear) {
+          configManager.useProfile(undefined);
+          console.log('✅ No default profile');
+          return;
+        }
+        if (!name) {
+          throw createValidationError('Provide a profile name, or --clear');
+        }
+
+        configManager.useProfile(name);
+        console.log(`✅ Now using profile "${name}" by default`);
+      } catch (error) {
+        handleError(error, 'selecting profile');
+      }
+    });
+
+  return command;
+}
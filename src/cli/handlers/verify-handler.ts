@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import { DownloadVerifier } from '../../lib/download/verifier';
+import { VerifyResult, VerifyStatus } from '../../types';
+import { handleError } from '../../utils/common/error-handler';
+import { getSettings } from '../settings-setup';
+import { addVerifyOptions } from '../common-options';
+
+const STATUS_ICONS: Record<VerifyStatus, string> = {
+  ok: '✅',
+  unverified: '➖',
+  missing: '❓',
+  truncated: '✂️ ',
+  corrupted: '❌'
+};
+
+function isProblem(result: VerifyResult): boolean {
+  return result.status !== 'ok' && result.status !== 'unverified';
+}
+
+export function createVerifyCommand(): Command {
+  const command = new Command('verify')
+    .description('Re-hash a download directory and report missing, truncated or corrupted files');
+
+  addVerifyOptions(command)
+    .action(async (outputDir, options) => {
+      try {
+        outputDir = outputDir || getSettings().outputDir;
+        const verifier = new DownloadVerifier(outputDir);
+
+        if (!options.json) {
+          console.log(`🔍 Verifying downloads in ${path.resolve(outputDir)}`);
+        }
+
+        const results = await verifier.verify(result => {
+          if (options.json || (!options.all && !isProblem(result))) return;
+          const detail = result.detail ? ` (${result.detail})` : '';
+          console.log(`${STATUS_ICONS[result.status]} ${result.status.padEnd(10)} ${result.file}${detail}`);
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify(results, null, 2));
+        } else {
+          const counts = results.reduce((acc, result) => {
+            acc[result.status] = (acc[result.status] || 0) + 1;
+            return acc;
+          }, {} as Record<VerifyStatus, number>);
+
+          console.log(`\n📊 Checked ${results.length} files:`);
+          (Object.keys(STATUS_ICONS) as VerifyStatus[]).forEach(status => {
+            if (counts[status]) {
+              console.log(`   • ${status}: ${counts[status]}`);
+            }
+          });
+        }
+
+        if (results.some(isProblem)) {
+          process.exit(1);
+        }
+      } catch (error) {
+        handleError(error, 'verifying downloads');
+      }
+    });
+
+  return command;
+}
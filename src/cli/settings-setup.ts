@@ -0,0 +1,125 @@
+import { Command } from 'commander';
+import { log } from '../logger';
+import { SettingsResolver, EffectiveSettings, Settings } from '../lib/services/settings-resolver';
+import { ConfigManager } from '../lib/services/config-manager';
+import { ConfigMigrator } from '../lib/services/config-migrations';
+import { APP_CONFIG } from '../config/constants';
+import { RetryManager } from '../utils/common/retry';
+import { createValidationError } from '../utils/common/error-handler';
+import { setupLogging } from './logging-setup';
+
+export interface SettingsFlags {
+  outputDir?: string;
+  concurrent?: string;
+  overwrite?: boolean;
+  debug?: boolean;
+  logToFile?: boolean;
+  logLevel?: string;
+  verbose?: boolean;
+  profile?: string;
+}
+
+let current: EffectiveSettings | undefined;
+
+function toOverrides(flags: SettingsFlags): Partial<Settings> {
+  const overrides: Partial<Settings> = {};
+  if (flags.outputDir !== undefined) overrides.outputDir = flags.outputDir;
+  if (flags.concurrent !== undefined) {
+    overrides.maxConcurrent = Number(flags.concurrent);
+    if (!Number.isInteger(overrides.maxConcurrent) || overrides.maxConcurrent < 1) {
+      throw createValidationError('--concurrent must be a positive number', { value: flags.concurrent });
+    }
+  }
+  if (flags.overwrite !== undefined) overrides.overwrite = flags.overwrite;
+  if (flags.debug !== undefined) overrides.debug = flags.debug;
+  if (flags.logToFile !== undefined) overrides.logToFile = flags.logToFile;
+  if (flags.logLevel !== undefined) overrides.logLevel = flags.logLevel;
+  return overrides;
+}
+
+/**
+ * Resolve the layered settings for this run with `flags` as the CLI layer,
+ * then apply the ones services read globally (logging and retry defaults).
+ */
+export function applySettings(flags: SettingsFlags): EffectiveSettings {
+  ConfigManager.getInstance().selectProfile(flags.profile);
+  current = SettingsResolver.resolve(toOverrides(flags));
+  const { values, origins } = current;
+
+  RetryManager.configure({ maxAttempts: values.maxRetryAttempts, baseDelayMs: values.retryBaseDelayMs });
+
+  // The logger keeps its quiet default unless logging was configured somewhere
+  const loggingConfigured = origins.debug.source !== 'default' ||
+    origins.logToFile.source !== 'default' ||
+    origins.logLevel.source !== 'default';
+  if (loggingConfigured) {
+    setupLogging({
+      debug: values.debug,
+      logToFile: values.logToFile,
+      logLevel: origins.logLevel.source !== 'default' ? values.logLevel : '',
+      verbose: !!flags.verbose
+    });
+  }
+
+  return current;
+}
+
+/**
+ * Tell the user about config.json values that were ignored on load, and
+ * about a schema migration. Written to stderr to keep piped output clean.
+ */
+export function reportConfigLoad(): void {
+  const configManager = ConfigManager.getInstance();
+  const report = configManager.getLoadReport();
+
+  if (report.migratedFrom !== undefined) {
+    const backup = report.backupPath ? ` (backup: ${report.backupPath})` : ' (not saved: backup failed)';
+    console.warn(`🔄 Migrated ${configManager.getConfigPath()} from version ${report.migratedFrom} to ${ConfigMigrator.CURRENT_VERSION}${backup}`);
+  }
+
+  for (const issue of report.issues) {
+    console.warn(`⚠️  Ignoring invalid config value: ${issue.message}`);
+  }
+  if (report.issues.length > 0) {
+    console.warn(`💡 Check the configuration with: ${APP_CONFIG.NAME} config validate`);
+  }
+}
+
+/**
+ * Fill options of `command` that weren't given on the command line with the
+ * active profile's flag defaults (e.g. outputTemplate or cookiesFile).
+ * Options the command doesn't have are left for other commands.
+ */
+export function applyProfileOptions(command: Command): void {
+  const profile = ConfigManager.getInstance().getActiveProfile();
+  if (!profile?.config.options) return;
+
+  for (const [name, value] of Object.entries(profile.config.options)) {
+    if (SettingsResolver.isSettingOption(name)) {
+      log.warn(`Ignoring options.${name} in profile "${profile.name}": set it as a profile setting instead`);
+      continue;
+    }
+    if (!command.options.some(option => option.attributeName() === name)) continue;
+
+    const source = command.getOptionValueSource(name);
+    if (source === undefined || source === 'default') {
+      command.setOptionValueWithSource(name, value, 'config');
+      log.debug('Applied profile option', { profile: profile.name, option: name });
+    }
+  }
+}
+
+/**
+ * Settings applied for the running command, with their origins (defaults,
+ * config files and env only if `applySettings` hasn't run).
+ */
+export function getEffectiveSettings(): EffectiveSettings {
+  if (!current) {
+    current = SettingsResolver.resolve();
+  }
+  return current;
+}
+
+export function getSettings(): Settings {
+  return getEffectiveSettings().values;
+}
@@ -6,15 +6,30 @@ export const APP_CONFIG = {
   DEFAULT_OUTPUT_DIR: './downloads',
   DEFAULT_CONCURRENT_DOWNLOADS: 3,
   DEFAULT_DOWNLOAD_COUNT: 10,
+  DEFAULT_MAX_PAGES: 50,
   MAX_RETRY_ATTEMPTS: 3,
   RETRY_BASE_DELAY_MS: 500,
   REQUEST_TIMEOUT_MS: 30000,
   THUMBNAIL_TIMEOUT_MS: 15000,
-  LOG_CLEANUP_DAYS: 7
+  MAX_RETRY_AFTER_MS: 300000, // Give up instead of honoring Retry-After beyond 5 minutes
+  CIRCUIT_BREAKER_THRESHOLD: 5,
+  CIRCUIT_BREAKER_COOLDOWN_MS: 30000,
+  CIRCUIT_BREAKER_MAX_TRIPS: 3,
+  LOG_CLEANUP_DAYS: 7,
+  // Project-local settings, looked up from the working directory upwards
+  PROJECT_CONFIG_FILE: '.sora-dlrc',
+  // Settings can be overridden with e.g. SORA_DL_MAX_CONCURRENT=5
+  SETTINGS_ENV_PREFIX: 'SORA_DL_',
+  // Named profile to use when --profile isn't given
+  PROFILE_ENV: 'SORA_DL_PROFILE',
+  // Bump together with a new entry in config-migrations.ts
+  CONFIG_SCHEMA_VERSION: 2
 } as const;
 
 export const API_CONFIG = {
   BASE_URL: 'https://sora.chatgpt.com/backend/public/nf2',
+  // Post page, for posts whose feed entry has no permalink
+  POST_URL: 'https://sora.chatgpt.com/p/',
   ENDPOINTS: {
     FEED: '/feed',
     VIDEO: '/video'
@@ -36,17 +51,45 @@ export const API_CONFIG = {
   }
 } as const;
 
+export const AUTH_CONFIG = {
+  COOKIE_DOMAIN: 'sora.chatgpt.com',
+  // Read when --cookies is not given, keeping cookies out of argv and shell history
+  COOKIES_ENV: 'SORA_DL_COOKIES',
+  // Cookies whose expiry usually explains sudden 401/403 responses
+  WATCHED_COOKIES: [/^cf_clearance$/, /session-token/] as readonly RegExp[],
+  EXPIRY_WARNING_MS: 24 * 60 * 60 * 1000,
+  // Unlocks credentials stored with `config auth set` without prompting
+  PASSPHRASE_ENV: 'SORA_DL_PASSPHRASE',
+  CREDENTIALS_FILE: 'credentials.enc',
+  SCRYPT_COST: 1 << 15,
+  SCRYPT_BLOCK_SIZE: 8,
+  SCRYPT_PARALLELIZATION: 1
+} as const;
+
 export const FILE_CONFIG = {
   EXTENSIONS: {
     VIDEO: '.mp4',
     THUMBNAIL: '_thumbnail.webp',
-    METADATA: '_metadata.json'
+    METADATA: '_metadata.json',
+    PARTIAL: '.part',
+    TEMPORARY: '.tmp'
   },
   DIRECTORIES: {
     VIDEOS: 'videos',
     METADATA: 'metadata',
     LOGS: 'logs'
   },
+  // Appended to the output name of watermarked downloads
+  WATERMARK_SUFFIX: '_wm',
+  // Extensions whose files are checked as ISO BMFF (ftyp/moov) containers
+  MP4_EXTENSIONS: ['.mp4', '.m4v', '.mov'] as readonly string[],
+  ARCHIVE_FILE: 'download-archive.txt',
+  LIBRARY_FILE: 'library.jsonl',
+  DEFAULT_OUTPUT_TEMPLATE: '{title}.{ext}',
+  // Version of the metadata sidecar layout, see lib/download/sidecar.ts
+  SIDECAR_SCHEMA_VERSION: 2,
+  // Written for every download; --write-sidecars adds other formats
+  DEFAULT_SIDECAR_FORMAT: 'json',
   MAX_FILENAME_LENGTH: 200
 } as const;
 
@@ -1,36 +1,54 @@
-import { SoraAPI } from './lib/api';
+import { SoraAPI, SoraAPIOptions } from './lib/api';
 import { VideoDownloader } from './lib/download';
-import { VideoItem, DownloadOptions } from './types';
+import { VideoItem, DownloadOptions, FeedPaginationOptions, NameCollision } from './types';
 import { log } from './logger';
 import { BaseService } from './lib/services/base-service';
 import { ConfigManager } from './lib/services/config-manager';
 import { ValidationUtils } from './utils/validation';
+import { CredentialStore } from './lib/auth/credential-store';
+import { PostFilter } from './lib/feed/filter';
+import { PostSortOptions, sortFeedItems } from './lib/feed/sort';
 
 export class SoraVideoDownloader extends BaseService {
   private api: SoraAPI;
   private downloader: VideoDownloader;
   private configManager: ConfigManager;
 
-  constructor(cookies?: string, downloadOptions?: DownloadOptions) {
+  constructor(
+    cookies?: string,
+    downloadOptions?: DownloadOptions,
+    apiOptions: Pick<SoraAPIOptions, 'headers' | 'cookieJar' | 'credentialStore'> = {}
+  ) {
     super('SoraVideoDownloader');
 
     this.configManager = ConfigManager.getInstance();
 
     this.logOperation('constructor', {
       hasProvidedCookies: !!cookies,
+      hasCustomHeaders: !!apiOptions.headers,
+      cookieJar: apiOptions.cookieJar?.getFilePath(),
       downloadOptions
     });
 
-    // Use provided cookies directly
-    if (!cookies) {
+    // Use provided cookies directly, falling back to credentials saved with `config auth set`
+    const credentialStore = apiOptions.credentialStore || new CredentialStore();
+    if (!cookies && !apiOptions.cookieJar && credentialStore.exists()) {
+      console.log(`🔐 Using stored credentials from ${credentialStore.getPath()}`);
+    } else if (!cookies && !apiOptions.cookieJar) {
       console.log('⚠️  No cookies provided. API calls may fail without authentication.');
       log.warn('No cookies available - API calls may fail');
-    } else {
+    } else if (cookies) {
       log.debug('Using provided cookies', { cookieLength: cookies.length });
     }
 
-    this.api = new SoraAPI(cookies);
     this.downloader = new VideoDownloader(downloadOptions);
+    this.api = new SoraAPI(cookies, {
+      headers: apiOptions.headers,
+      cookieJar: apiOptions.cookieJar,
+      credentialStore,
+      pacer: this.downloader.getRequestPacer(),
+      circuitBreaker: this.downloader.getCircuitBreaker()
+    });
 
     log.info('SoraVideoDownloader initialized successfully');
   }
@@ -53,6 +71,32 @@ export class SoraVideoDownloader extends BaseService {
     }
   }
 
+  async collectFeedVideos(options: FeedPaginationOptions = {}): Promise<VideoItem[]> {
+    this.logOperationStart('collectFeedVideos', options);
+
+    try {
+      const videos: VideoItem[] = [];
+      const seenIds = new Set<string>();
+      let pages = 0;
+
+      for await (const page of this.api.iterateFeedPages(options)) {
+        pages++;
+        for (const video of page.videos) {
+          // Cursor pages can overlap when the feed shifts between requests
+          if (seenIds.has(video.id)) continue;
+          seenIds.add(video.id);
+          videos.push(video);
+        }
+        log.info('Fetched feed page', { page: page.page, pageVideos: page.videos.length, totalVideos: videos.length });
+      }
+
+      this.logOperationEnd('collectFeedVideos', { pages, videoCount: videos.length });
+      return videos;
+    } catch (error) {
+      this.handleServiceError(error, 'collectFeedVideos');
+    }
+  }
+
   async downloadVideo(video: VideoItem): Promise<string> {
     this.logOperationStart('downloadVideo', { videoId: video.id, title: video.title });
 
@@ -74,22 +118,34 @@ export class SoraVideoDownloader extends BaseService {
     }
   }
 
-  async downloadAllVideos(maxConcurrent: number = 3): Promise<string[]> {
-    log.info('Starting download of all videos', { maxConcurrent });
-    const feed = await this.getFeed();
-    const result = await this.downloader.downloadAllFromFeed(feed.videos, maxConcurrent);
+  async downloadAllVideos(maxConcurrent: number = 3, maxPages?: number, filter?: PostFilter, sort?: PostSortOptions): Promise<string[]> {
+    log.info('Starting download of all videos', { maxConcurrent, maxPages, filter: filter?.describe(), sort });
+    const videos = this.sortVideos(await this.collectFeedVideos({ maxPages, ...filter?.toPaginationOptions() }), sort);
+
+    if (videos.length === 0) {
+      log.warn('No videos available to download from feed');
+      return [];
+    }
+
+    const result = await this.downloader.downloadAllFromFeed(videos, maxConcurrent);
     log.info('All videos download completed', {
-      requested: feed.videos.length,
+      requested: videos.length,
       downloaded: result.length,
-      successRate: `${((result.length / feed.videos.length) * 100).toFixed(1)}%`
+      successRate: `${((result.length / videos.length) * 100).toFixed(1)}%`
     });
     return result;
   }
 
-  async downloadRecentVideos(count: number = 10, maxConcurrent: number = 3): Promise<string[]> {
-    log.info('Starting download of recent videos', { count, maxConcurrent });
-    const feed = await this.getFeed();
-    const videosToDownload = feed.videos.slice(0, count);
+  /**
+   * Download the first `count` feed videos, counting only posts that pass
+   * `filter` when one is given. With `sort`, every page up to `maxPages` is
+   * fetched and ranked before taking the first `count`.
+   */
+  async downloadRecentVideos(count: number = 10, maxConcurrent: number = 3, maxPages?: number, filter?: PostFilter, sort?: PostSortOptions): Promise<string[]> {
+    log.info('Starting download of recent videos', { count, maxConcurrent, maxPages, filter: filter?.describe(), sort });
+    const videosToDownload = sort
+      ? this.sortVideos(await this.collectFeedVideos({ maxPages, ...filter?.toPaginationOptions() }), sort).slice(0, count)
+      : await this.collectFeedVideos({ limit: count, maxPages, ...filter?.toPaginationOptions() });
 
     if (videosToDownload.length === 0) {
       log.warn('No videos available to download from feed');
@@ -112,6 +168,23 @@ export class SoraVideoDownloader extends BaseService {
   setOverwrite(overwrite: boolean): void {
     this.downloader.setOverwrite(overwrite);
   }
+
+  rebuildArchive(): number {
+    return this.downloader.rebuildArchive();
+  }
+
+  getArchivePath(): string | undefined {
+    return this.downloader.getArchivePath();
+  }
+
+  getCollisions(): NameCollision[] {
+    return this.downloader.getCollisions();
+  }
+
+  private sortVideos(videos: VideoItem[], sort?: PostSortOptions): VideoItem[] {
+    if (!sort) return videos;
+    return sortFeedItems(videos, sort, video => (video.post ? { post: video.post, profile: video.profile } : undefined));
+  }
 }
 
 export { SoraAPI, VideoDownloader };
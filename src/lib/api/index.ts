@@ -1,36 +1,79 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { FeedResponse, VideoItem, SoraFeedResponse, SoraAttachment, SoraPost } from '../../types';
+import { FeedResponse, FeedPaginationOptions, VideoItem, SoraFeedResponse } from '../../types';
 import { log } from '../../logger';
-import { API_CONFIG } from '../../config/constants';
-import { withRetry } from '../../utils/common/retry';
+import { API_CONFIG, APP_CONFIG } from '../../config/constants';
+import { withRetry, RetryOptions } from '../../utils/common/retry';
 import { createAPIError } from '../../utils/common/error-handler';
 import { BaseService } from '../services/base-service';
 import { ValidationUtils } from '../../utils/validation';
+import { normalizeSoraFeedItem } from '../feed/normalize';
+import { RequestPacer } from '../services/request-pacer';
+import { CircuitBreaker } from '../../utils/common/circuit-breaker';
+import { CookieJar } from '../auth/cookie-jar';
+import { CredentialStore } from '../auth/credential-store';
+import { readPassphrase } from '../auth/passphrase';
+
+export interface SoraAPIOptions {
+  // Replaces the built-in browser headers, e.g. headers imported with --from-curl
+  headers?: Record<string, string>;
+  pacer?: RequestPacer;
+  circuitBreaker?: CircuitBreaker;
+  // Supplies cookies per request and receives Set-Cookie updates; ignored when a cookie string is given
+  cookieJar?: CookieJar;
+  // Used when neither cookies nor a jar are given; defaults to ~/.sora-dl/credentials.enc if it exists
+  credentialStore?: CredentialStore;
+}
 
 export class SoraAPI extends BaseService {
   private client: AxiosInstance;
   private baseURL: string = API_CONFIG.BASE_URL;
 
-  constructor(cookies?: string) {
+  private pacer?: RequestPacer;
+  private circuitBreaker: CircuitBreaker;
+  private cookieJar?: CookieJar;
+  private credentialStore?: CredentialStore;
+  private storedCookies?: Promise<string | undefined>;
+
+  constructor(cookies?: string, options: SoraAPIOptions = {}) {
     super('SoraAPI');
+    this.pacer = options.pacer;
+    this.circuitBreaker = options.circuitBreaker || new CircuitBreaker();
+    this.cookieJar = cookies ? undefined : options.cookieJar;
+    if (!cookies && !this.cookieJar) {
+      const store = options.credentialStore || new CredentialStore();
+      this.credentialStore = store.exists() ? store : undefined;
+    }
 
     this.logOperation('constructor', {
       baseURL: this.baseURL,
       hasCookies: !!cookies,
-      cookieLength: cookies?.length || 0
+      cookieLength: cookies?.length || 0,
+      customHeaders: options.headers ? Object.keys(options.headers) : undefined,
+      cookieJar: this.cookieJar?.getFilePath(),
+      credentialStore: this.credentialStore?.getPath(),
+      paced: !!this.pacer?.isEnabled()
     });
 
     this.client = axios.create({
       baseURL: this.baseURL,
       headers: {
-        ...API_CONFIG.HEADERS,
+        ...(options.headers || API_CONFIG.HEADERS),
         ...(cookies && { 'Cookie': cookies })
       }
     });
 
     // Add request/response interceptors for logging
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        await this.pacer?.wait(config.url);
+        if (this.credentialStore) {
+          const storedCookies = await this.unlockStoredCredentials(this.credentialStore);
+          if (storedCookies) config.headers.set('Cookie', storedCookies);
+        }
+        if (this.cookieJar) {
+          const cookieHeader = this.cookieJar.getCookieHeader(this.client.getUri(config));
+          if (cookieHeader) config.headers.set('Cookie', cookieHeader);
+        }
         log.logRequest(config.method?.toUpperCase() || 'GET', config.url || '', config.headers as Record<string, string>, config.data);
         return config;
       },
@@ -42,6 +85,7 @@ export class SoraAPI extends BaseService {
 
     this.client.interceptors.response.use(
       (response) => {
+        this.storeResponseCookies(response);
         log.logResponse(
           response.config.method?.toUpperCase() || 'GET',
           response.config.url || '',
@@ -53,6 +97,7 @@ export class SoraAPI extends BaseService {
       },
       (error) => {
         if (axios.isAxiosError(error)) {
+        if (error.response) this.storeResponseCookies(error.response);
         log.logResponse(
           error.config?.method?.toUpperCase() || 'GET',
           error.config?.url || '',
@@ -66,13 +111,17 @@ export class SoraAPI extends BaseService {
     );
   }
 
-  async getRawFeed(): Promise<SoraFeedResponse> {
-    this.logOperationStart('getRawFeed');
+  async getRawFeed(cursor?: string): Promise<SoraFeedResponse> {
+    this.logOperationStart('getRawFeed', { cursor });
 
     try {
       const response = await this.executeWithRetry(
-        () => this.client.get<SoraFeedResponse>(API_CONFIG.ENDPOINTS.FEED, { timeout: 15000 }),
-        'getRawFeed'
+        () => this.client.get<SoraFeedResponse>(API_CONFIG.ENDPOINTS.FEED, {
+          timeout: 15000,
+          params: cursor ? { cursor } : undefined
+        }),
+        'getRawFeed',
+        this.getRetryOptions()
       );
 
       const data = response.data;
@@ -80,7 +129,8 @@ export class SoraAPI extends BaseService {
 
       this.logOperationEnd('getRawFeed', {
         dataSize: JSON.stringify(data).length,
-        hasItems: data.items?.length || 0
+        hasItems: data.items?.length || 0,
+        hasCursor: !!data.cursor
       });
 
       return data;
@@ -90,10 +140,14 @@ export class SoraAPI extends BaseService {
   }
 
   async getFeed(): Promise<FeedResponse> {
-    this.logOperationStart('getFeed');
+    return this.getFeedPage();
+  }
+
+  async getFeedPage(cursor?: string): Promise<FeedResponse> {
+    this.logOperationStart('getFeed', { cursor });
 
     try {
-      const data = await this.getRawFeed();
+      const data = await this.getRawFeed(cursor);
 
       this.logOperation('getFeed', {
         dataType: typeof data,
@@ -137,10 +191,14 @@ export class SoraAPI extends BaseService {
         throw new Error('Unable to parse feed response');
       }
 
+      // The Sora feed signals further pages only through a non-empty cursor
+      const nextCursor = !Array.isArray(data) && data.cursor ? data.cursor : undefined;
+
       const result: FeedResponse = {
         videos,
         total,
-        hasMore: false, // Sora feed doesn't have hasMore/page info
+        hasMore: !!nextCursor,
+        cursor: nextCursor,
         page: undefined
       };
 
@@ -157,6 +215,104 @@ export class SoraAPI extends BaseService {
     }
   }
 
+  /**
+   * Walk the feed page by page, following the response cursor until the
+   * video limit, the `since` date bound, `maxPages` or an empty cursor is hit.
+   * Videos outside the [since, until] window or rejected by `filter` are
+   * dropped from each page.
+   */
+  async *iterateFeedPages(options: FeedPaginationOptions = {}): AsyncGenerator<FeedResponse> {
+    const maxPages = options.maxPages ?? APP_CONFIG.DEFAULT_MAX_PAGES;
+    const seenCursors = new Set<string>();
+    let cursor = options.cursor;
+    let collected = 0;
+    const since = options.since;
+
+    for (let page = 1; page <= maxPages; page++) {
+      const response = await this.getFeedPage(cursor);
+
+      const postedTimes = response.videos.map(video => (video.createdAt ? Date.parse(video.createdAt) : NaN));
+      let videos = response.videos.filter((video, index) =>
+        this.isWithinDateBounds(postedTimes[index], options) && this.matchesFilter(video, options));
+      if (options.limit !== undefined) {
+        videos = videos.slice(0, Math.max(0, options.limit - collected));
+      }
+      collected += videos.length;
+
+      yield { ...response, videos, total: videos.length, page };
+
+      // Feeds are roughly newest-first, so stop once a whole page predates `since`
+      const pageBeforeSince = !!since && postedTimes.length > 0 &&
+        postedTimes.every(time => !isNaN(time) && time < since.getTime());
+
+      let stopReason: string | undefined;
+      if (options.limit !== undefined && collected >= options.limit) {
+        stopReason = 'limit';
+      } else if (pageBeforeSince) {
+        stopReason = 'since';
+      } else if (!response.cursor) {
+        stopReason = 'end-of-feed';
+      } else if (seenCursors.has(response.cursor)) {
+        stopReason = 'repeated-cursor';
+      } else if (page === maxPages) {
+        stopReason = 'max-pages';
+      }
+
+      if (stopReason) {
+        this.logOperation('iterateFeedPages', { page, collected, stopReason });
+        return;
+      }
+
+      if (response.cursor) seenCursors.add(response.cursor);
+      cursor = response.cursor;
+    }
+  }
+
+  /**
+   * Decrypt the stored credentials on first use. Concurrent requests share
+   * one unlock (and so one passphrase prompt); jar credentials become an
+   * in-memory cookie jar, a cookie string is returned as-is.
+   */
+  private unlockStoredCredentials(store: CredentialStore): Promise<string | undefined> {
+    if (!this.storedCookies) {
+      this.storedCookies = (async () => {
+        const passphrase = await readPassphrase('🔐 Passphrase for stored credentials: ');
+        const credentials = store.load(passphrase);
+        this.logOperation('unlockStoredCredentials', { hasCookies: !!credentials.cookies, jarCookies: credentials.jar?.length });
+        if (credentials.jar) {
+          this.cookieJar = CookieJar.fromCookies(credentials.jar);
+          return undefined;
+        }
+        return credentials.cookies;
+      })();
+    }
+    return this.storedCookies;
+  }
+
+  private storeResponseCookies(response: AxiosResponse): void {
+    if (!this.cookieJar) return;
+    const changed = this.cookieJar.storeSetCookies(response.headers['set-cookie'], this.client.getUri(response.config));
+    if (changed > 0) this.cookieJar.save();
+  }
+
+  private getRetryOptions(): RetryOptions {
+    return { circuitBreaker: this.circuitBreaker, circuitKey: new URL(this.baseURL).host };
+  }
+
+  private isWithinDateBounds(postedTime: number, options: FeedPaginationOptions): boolean {
+    if (!options.since && !options.until) return true;
+    if (isNaN(postedTime)) return false;
+    if (options.since && postedTime < options.since.getTime()) return false;
+    if (options.until && postedTime > options.until.getTime()) return false;
+    return true;
+  }
+
+  // Videos without post data (non-Sora feed shapes) can't be checked, so a filter drops them
+  private matchesFilter(video: VideoItem, options: FeedPaginationOptions): boolean {
+    if (!options.filter) return true;
+    return !!video.post && options.filter({ post: video.post, profile: video.profile });
+  }
+
   private normalizeVideoItem(item: any): VideoItem {
     // This method normalizes different possible video item structures
     return {
@@ -174,29 +330,8 @@ export class SoraAPI extends BaseService {
   private normalizeFromSoraFeed(feed: SoraFeedResponse): { videos: VideoItem[] } {
     const videos: VideoItem[] = [];
     for (const item of feed.items) {
-      const post: SoraPost = (item as any).post;
-      if (!post || !Array.isArray(post.attachments)) continue;
-      const attachment: SoraAttachment | undefined = post.attachments.find((att: any) => att && att.kind === 'sora');
-      if (!attachment) continue;
-
-      const videoUrl = attachment.downloadable_url || attachment.encodings?.source?.path || attachment.url;
-      if (!videoUrl) continue;
-
-      const thumbnailUrl = attachment.encodings?.thumbnail?.path || undefined;
-      const title = attachment.title || (post.text ? post.text.slice(0, 80) : `Post ${post.id}`);
-
-      videos.push({
-        id: post.id,
-        title,
-        description: post.text,
-        videoUrl,
-        thumbnailUrl,
-        prompt: attachment.prompt || post.text || undefined,
-        source: post.source || attachment.source || undefined,
-        generationId: attachment.generation_id || undefined,
-        createdAt: post.posted_at ? new Date(post.posted_at * 1000).toISOString() : undefined,
-        updatedAt: post.updated_at ? new Date(post.updated_at * 1000).toISOString() : undefined
-      });
+      const video = normalizeSoraFeedItem(item);
+      if (video) videos.push(video);
     }
     return { videos };
   }
@@ -208,7 +343,7 @@ export class SoraAPI extends BaseService {
 
       const response = await withRetry(
         () => this.client.get(`${API_CONFIG.ENDPOINTS.VIDEO}/${videoId}`),
-        { operation: 'getVideoDetails' }
+        { operation: 'getVideoDetails', ...this.getRetryOptions() }
       );
 
       const normalized = this.normalizeVideoItem(response.data);
@@ -0,0 +1,371 @@
+import { log } from '../../logger';
+import { AUTH_CONFIG } from '../../config/constants';
+import { FileUtils } from '../../utils/common/file-utils';
+import { createValidationError } from '../../utils/common/error-handler';
+
+export type CookieJarFormat = 'netscape' | 'json';
+
+export interface JarCookie {
+  name: string;
+  value: string;
+  // Stored without a leading dot
+  domain: string;
+  path: string;
+  // Unix seconds; undefined for session cookies
+  expires?: number;
+  secure: boolean;
+  httpOnly: boolean;
+  // Only sent to exactly `domain`, not its subdomains
+  hostOnly: boolean;
+}
+
+export interface CookieExpiryWarning {
+  name: string;
+  expired: boolean;
+  expires: Date;
+}
+
+const NETSCAPE_HEADER = '# Netscape HTTP Cookie File';
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+function domainMatches(host: string, cookie: JarCookie): boolean {
+  if (cookie.hostOnly) return host === cookie.domain;
+  return host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath || cookiePath === '/') return true;
+  return requestPath.startsWith(cookiePath.endsWith('/') ? cookiePath : `${cookiePath}/`);
+}
+
+function isExpired(cookie: JarCookie, nowSeconds: number): boolean {
+  return cookie.expires !== undefined && cookie.expires <= nowSeconds;
+}
+
+function parseNetscape(content: string): JarCookie[] {
+  const cookies: JarCookie[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine;
+    let httpOnly = false;
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+      line = line.slice(HTTP_ONLY_PREFIX.length);
+      httpOnly = true;
+    } else if (line.startsWith('#') || !line.trim()) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      log.debug('Skipping malformed cookies.txt line', { fields: fields.length });
+      continue;
+    }
+
+    const [domain, includeSubdomains, cookiePath, secure, expires, name, ...valueParts] = fields;
+    const expiresSeconds = parseInt(expires, 10);
+    cookies.push({
+      name,
+      value: valueParts.join('\t'),
+      domain: domain.replace(/^\./, ''),
+      path: cookiePath || '/',
+      expires: expiresSeconds > 0 ? expiresSeconds : undefined,
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly,
+      hostOnly: includeSubdomains.toUpperCase() !== 'TRUE'
+    });
+  }
+
+  return cookies;
+}
+
+function serializeNetscape(cookies: JarCookie[]): string {
+  const lines = cookies.map(cookie => [
+    `${cookie.httpOnly ? HTTP_ONLY_PREFIX : ''}${cookie.hostOnly ? '' : '.'}${cookie.domain}`,
+    cookie.hostOnly ? 'FALSE' : 'TRUE',
+    cookie.path,
+    cookie.secure ? 'TRUE' : 'FALSE',
+    String(cookie.expires ?? 0),
+    cookie.name,
+    cookie.value
+  ].join('\t'));
+  return `${NETSCAPE_HEADER}\n\n${lines.join('\n')}\n`;
+}
+
+// One cookie of a JSON export; other fields are ignored
+interface JsonCookie {
+  name: string;
+  domain: string;
+  value?: unknown;
+  path?: string;
+  expirationDate?: number;
+  expires?: number;
+  session?: boolean;
+  secure?: boolean;
+  httpOnly?: boolean;
+  hostOnly?: boolean;
+}
+
+function isJsonCookie(entry: unknown): entry is JsonCookie {
+  const cookie = entry as Partial<JsonCookie> | null;
+  return !!cookie && typeof cookie.name === 'string' && typeof cookie.domain === 'string';
+}
+
+/**
+ * Browser-extension exports (Cookie-Editor, EditThisCookie) are arrays using
+ * `expirationDate`; Playwright storage state wraps the list in `cookies` and
+ * uses `expires` with -1 for session cookies.
+ */
+function parseJson(content: string): { cookies: JarCookie[]; wrapper?: Record<string, unknown> } {
+  const data: unknown = JSON.parse(content);
+  const list = Array.isArray(data) ? data : (data as { cookies?: unknown } | null)?.cookies;
+  if (!Array.isArray(list)) {
+    throw createValidationError('JSON cookie file must be an array of cookies or an object with a "cookies" array');
+  }
+
+  const cookies = list
+    .filter(isJsonCookie)
+    .map((entry): JarCookie => {
+      const expires = entry.expirationDate ?? entry.expires;
+      return {
+        name: entry.name,
+        value: String(entry.value ?? ''),
+        domain: entry.domain.replace(/^\./, ''),
+        path: entry.path || '/',
+        expires: typeof expires === 'number' && expires > 0 && !entry.session ? Math.floor(expires) : undefined,
+        secure: !!entry.secure,
+        httpOnly: !!entry.httpOnly,
+        hostOnly: entry.hostOnly ?? !entry.domain.startsWith('.')
+      };
+    });
+
+  return { cookies, wrapper: Array.isArray(data) ? undefined : data as Record<string, unknown> };
+}
+
+function serializeJson(cookies: JarCookie[], wrapper?: Record<string, unknown>): string {
+  if (wrapper) {
+    const list = cookies.map(cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+      path: cookie.path,
+      expires: cookie.expires ?? -1,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure
+    }));
+    return JSON.stringify({ ...wrapper, cookies: list }, null, 2);
+  }
+
+  const list = cookies.map(cookie => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+    path: cookie.path,
+    ...(cookie.expires !== undefined && { expirationDate: cookie.expires }),
+    hostOnly: cookie.hostOnly,
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    session: cookie.expires === undefined
+  }));
+  return JSON.stringify(list, null, 2);
+}
+
+/**
+ * Cookies loaded from a Netscape cookies.txt or JSON export. Requests get
+ * only the cookies matching their URL, and `Set-Cookie` responses are merged
+ * back so refreshed Cloudflare/session cookies survive between runs.
+ */
+export class CookieJar {
+  private dirty = false;
+
+  private constructor(
+    private cookies: JarCookie[],
+    private format: CookieJarFormat,
+    // Unset for in-memory jars, whose Set-Cookie updates only last for the run
+    private filePath?: string,
+    private jsonWrapper?: Record<string, unknown>
+  ) {}
+
+  static fromCookies(cookies: JarCookie[]): CookieJar {
+    return new CookieJar(cookies.map(cookie => ({ ...cookie })), 'json');
+  }
+
+  static load(filePath: string): CookieJar {
+    if (!FileUtils.fileExists(filePath)) {
+      throw createValidationError(`Cookies file not found: ${filePath}`, { filePath });
+    }
+
+    const content = FileUtils.readFile(filePath);
+    const trimmed = content.trimStart();
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+      let parsed: ReturnType<typeof parseJson>;
+      try {
+        parsed = parseJson(trimmed);
+      } catch (error) {
+        throw createValidationError(`Failed to parse JSON cookie file: ${filePath}`, { filePath, error: (error as Error).message });
+      }
+      return new CookieJar(parsed.cookies, 'json', filePath, parsed.wrapper);
+    }
+
+    return new CookieJar(parseNetscape(content), 'netscape', filePath);
+  }
+
+  getFormat(): CookieJarFormat {
+    return this.format;
+  }
+
+  getFilePath(): string | undefined {
+    return this.filePath;
+  }
+
+  /**
+   * Unexpired cookies that a browser would send to `url`.
+   */
+  getCookies(url: string, now: Date = new Date()): JarCookie[] {
+    const { hostname, pathname, protocol } = new URL(url);
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+
+    return this.cookies
+      .filter(cookie =>
+        domainMatches(hostname, cookie) &&
+        pathMatches(pathname, cookie.path) &&
+        (!cookie.secure || protocol === 'https:') &&
+        !isExpired(cookie, nowSeconds)
+      )
+      // Longer paths first, as browsers order them
+      .sort((a, b) => b.path.length - a.path.length);
+  }
+
+  getCookieHeader(url: string): string {
+    return this.getCookies(url).map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  }
+
+  /**
+   * Merge `Set-Cookie` headers received for `url`. Returns the number of
+   * cookies added, changed or removed.
+   */
+  storeSetCookies(setCookie: string | string[] | undefined, url: string): number {
+    if (!setCookie) return 0;
+    const headers = Array.isArray(setCookie) ? setCookie : [setCookie];
+    const { hostname } = new URL(url);
+    let changes = 0;
+
+    for (const header of headers) {
+      const cookie = this.parseSetCookie(header, hostname);
+      if (!cookie) continue;
+
+      const index = this.cookies.findIndex(existing =>
+        existing.name === cookie.name && existing.domain === cookie.domain && existing.path === cookie.path
+      );
+      const removing = isExpired(cookie, Math.floor(Date.now() / 1000));
+
+      if (index === -1) {
+        if (removing) continue;
+        this.cookies.push(cookie);
+      } else if (removing) {
+        this.cookies.splice(index, 1);
+      } else {
+        const existing = this.cookies[index];
+        if (existing.value === cookie.value && existing.expires === cookie.expires) continue;
+        this.cookies[index] = cookie;
+      }
+
+      changes++;
+      log.debug('Cookie jar updated from Set-Cookie', { name: cookie.name, domain: cookie.domain, removed: removing });
+    }
+
+    if (changes > 0) this.dirty = true;
+    return changes;
+  }
+
+  /**
+   * Write pending Set-Cookie updates back to the file, in its original format.
+   */
+  save(): void {
+    if (!this.dirty || !this.filePath) return;
+    const content = this.format === 'json'
+      ? serializeJson(this.cookies, this.jsonWrapper)
+      : serializeNetscape(this.cookies);
+    FileUtils.writeFile(this.filePath, content);
+    this.dirty = false;
+  }
+
+  /**
+   * Watched cookies (Cloudflare clearance, session token) for `url` that are
+   * expired or will expire within `withinMs`.
+   */
+  getExpiryWarnings(url: string, withinMs: number = AUTH_CONFIG.EXPIRY_WARNING_MS, now: Date = new Date()): CookieExpiryWarning[] {
+    const { hostname } = new URL(url);
+    const warnings: CookieExpiryWarning[] = [];
+
+    for (const cookie of this.cookies) {
+      if (cookie.expires === undefined || !domainMatches(hostname, cookie)) continue;
+      if (!AUTH_CONFIG.WATCHED_COOKIES.some(pattern => pattern.test(cookie.name))) continue;
+
+      const expiresMs = cookie.expires * 1000;
+      if (expiresMs - now.getTime() <= withinMs) {
+        warnings.push({ name: cookie.name, expired: expiresMs <= now.getTime(), expires: new Date(expiresMs) });
+      }
+    }
+
+    return warnings;
+  }
+
+  private parseSetCookie(header: string, requestHost: string): JarCookie | undefined {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return undefined;
+
+    const cookie: JarCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: requestHost,
+      path: '/',
+      secure: false,
+      httpOnly: false,
+      hostOnly: true
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split('=');
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join('=').trim();
+
+      switch (key) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+          // Ignore cookies a host isn't allowed to set
+          if (requestHost !== domain && !requestHost.endsWith(`.${domain}`)) return undefined;
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) cookie.path = value;
+          break;
+        case 'expires': {
+          const time = Date.parse(value);
+          if (!isNaN(time)) cookie.expires = Math.floor(time / 1000);
+          break;
+        }
+        case 'max-age':
+          maxAge = parseInt(value, 10);
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'httponly':
+          cookie.httpOnly = true;
+          break;
+      }
+    }
+
+    // Max-Age wins over Expires; zero or negative deletes the cookie
+    if (maxAge !== undefined && !isNaN(maxAge)) {
+      cookie.expires = maxAge <= 0 ? 0 : Math.floor(Date.now() / 1000) + maxAge;
+    }
+
+    return cookie;
+  }
+}
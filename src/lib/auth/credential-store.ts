@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { log } from '../../logger';
+import { AUTH_CONFIG } from '../../config/constants';
+import { FileUtils } from '../../utils/common/file-utils';
+import { createValidationError, createFileSystemError } from '../../utils/common/error-handler';
+import { ConfigManager } from '../services/config-manager';
+import { JarCookie } from './cookie-jar';
+
+export type CredentialSource = 'cookies' | 'cookies-file' | 'from-curl';
+
+export interface StoredCredentials {
+  // Either a raw Cookie header value or the jar cookies for the Sora domain
+  cookies?: string;
+  jar?: JarCookie[];
+}
+
+// Readable without the passphrase so `config show` can describe the store
+export interface CredentialInfo {
+  source: CredentialSource;
+  savedAt: string;
+}
+
+interface EncryptedCredentials extends CredentialInfo {
+  version: 1;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+function deriveKey(passphrase: string, salt: Buffer, N: number, r: number, p: number): Buffer {
+  // scrypt needs 128 * N * r bytes; leave headroom over Node's 32 MiB default
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r });
+}
+
+// The plaintext metadata is authenticated so it can't be swapped undetected
+function getAdditionalData(info: CredentialInfo): Buffer {
+  return Buffer.from(JSON.stringify({ source: info.source, savedAt: info.savedAt }), 'utf8');
+}
+
+/**
+ * Cookies kept under ~/.sora-dl/, encrypted with AES-256-GCM using a key
+ * derived from a passphrase with scrypt. Without a path, the active
+ * profile's credentials are used.
+ */
+export class CredentialStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || CredentialStore.getDefaultPath(ConfigManager.getInstance().getActiveProfile()?.name);
+  }
+
+  /**
+   * ~/.sora-dl/credentials.enc, or credentials.<profile>.enc for a named profile.
+   */
+  static getDefaultPath(profile?: string): string {
+    const fileName = profile
+      ? AUTH_CONFIG.CREDENTIALS_FILE.replace(/\.enc$/, `.${profile}.enc`)
+      : AUTH_CONFIG.CREDENTIALS_FILE;
+    return path.join(os.homedir(), '.sora-dl', fileName);
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  exists(): boolean {
+    return FileUtils.fileExists(this.filePath);
+  }
+
+  getInfo(): CredentialInfo | undefined {
+    if (!this.exists()) return undefined;
+    const envelope = this.readEnvelope();
+    return { source: envelope.source, savedAt: envelope.savedAt };
+  }
+
+  save(credentials: StoredCredentials, source: CredentialSource, passphrase: string): void {
+    const info: CredentialInfo = { source, savedAt: new Date().toISOString() };
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const N = AUTH_CONFIG.SCRYPT_COST;
+    const r = AUTH_CONFIG.SCRYPT_BLOCK_SIZE;
+    const p = AUTH_CONFIG.SCRYPT_PARALLELIZATION;
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, N, r, p), iv);
+    cipher.setAAD(getAdditionalData(info));
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+
+    const envelope: EncryptedCredentials = {
+      version: 1,
+      ...info,
+      kdf: { name: 'scrypt', N, r, p, salt: salt.toString('base64') },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    FileUtils.ensureDirectoryExists(path.dirname(this.filePath));
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(envelope, null, 2), { encoding: 'utf8', mode: 0o600 });
+      // mode only applies when the file is created
+      fs.chmodSync(this.filePath, 0o600);
+      log.logFileOperation('write', this.filePath, true);
+    } catch (error) {
+      log.logFileOperation('write', this.filePath, false, error as Error);
+      throw createFileSystemError(`Failed to write credentials: ${this.filePath}`, { filePath: this.filePath, error });
+    }
+  }
+
+  load(passphrase: string): StoredCredentials {
+    const envelope = this.readEnvelope();
+    const { N, r, p, salt } = envelope.kdf;
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        deriveKey(passphrase, Buffer.from(salt, 'base64'), N, r, p),
+        Buffer.from(envelope.iv, 'base64')
+      );
+      decipher.setAAD(getAdditionalData(envelope));
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch (error) {
+      log.debug('Failed to decrypt credentials', { filePath: this.filePath, error: (error as Error).message });
+      throw createValidationError('Could not unlock stored credentials: wrong passphrase or corrupted file', { filePath: this.filePath });
+    }
+  }
+
+  clear(): boolean {
+    if (!this.exists()) return false;
+    FileUtils.deleteFile(this.filePath);
+    return true;
+  }
+
+  private readEnvelope(): EncryptedCredentials {
+    let envelope: EncryptedCredentials;
+    try {
+      envelope = JSON.parse(FileUtils.readFile(this.filePath));
+    } catch (error) {
+      throw createValidationError(`Failed to read stored credentials: ${this.filePath}`, { filePath: this.filePath, error: (error as Error).message });
+    }
+
+    if (envelope?.version !== 1 || envelope.kdf?.name !== 'scrypt' || envelope.cipher !== 'aes-256-gcm') {
+      throw createValidationError(`Unsupported credentials file format: ${this.filePath}`, { filePath: this.filePath });
+    }
+    return envelope;
+  }
+}
@@ -0,0 +1,208 @@
+import { FileUtils } from '../../utils/common/file-utils';
+import { createValidationError } from '../../utils/common/error-handler';
+
+export interface ParsedCurl {
+  url?: string;
+  method?: string;
+  headers: Record<string, string>;
+  cookies?: string;
+}
+
+// Headers that describe one particular request/connection rather than the
+// client, or that axios manages itself
+const IGNORED_HEADERS = new Set([
+  'accept-encoding',
+  'connection',
+  'content-length',
+  'content-type',
+  'host',
+  'if-none-match',
+  'if-modified-since'
+]);
+
+// Credentials that must never be written to the plain-text config file
+export const SECRET_HEADERS = new Set(['cookie', 'authorization']);
+
+/**
+ * Split a shell command line into words the way a POSIX shell would for the
+ * subset "Copy as cURL" produces: single quotes, double quotes with
+ * backslash escapes, ANSI-C `$'...'` strings and backslash line continuations.
+ */
+export function tokenizeShellCommand(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let i = 0;
+
+  const ansiEscapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === '\\' && (input[i + 1] === '\n' || (input[i + 1] === '\r' && input[i + 2] === '\n'))) {
+      i += input[i + 1] === '\r' ? 3 : 2;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+      i++;
+      continue;
+    }
+
+    inToken = true;
+
+    if (ch === '$' && input[i + 1] === "'") {
+      i += 2;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          const next = input[i + 1];
+          if (next === 'x' || next === 'u') {
+            const digits = next === 'x' ? 2 : 4;
+            current += String.fromCharCode(parseInt(input.slice(i + 2, i + 2 + digits), 16));
+            i += 2 + digits;
+          } else {
+            current += ansiEscapes[next] ?? next;
+            i += 2;
+          }
+          continue;
+        }
+        current += input[i++];
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw createValidationError('Unterminated single quote in curl command');
+      current += input.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) {
+          current += input[i + 1];
+          i += 2;
+          continue;
+        }
+        current += input[i++];
+      }
+      if (i >= input.length) throw createValidationError('Unterminated double quote in curl command');
+      i++;
+      continue;
+    }
+
+    if (ch === '\\' && i + 1 < input.length) {
+      current += input[i + 1];
+      i += 2;
+      continue;
+    }
+
+    current += ch;
+    i++;
+  }
+
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Parse a "Copy as cURL" command into its URL, headers and cookie string.
+ * Header names are lower-cased; a `-b` value and a `Cookie` header are
+ * merged into `cookies`.
+ */
+export function parseCurlCommand(command: string): ParsedCurl {
+  const tokens = tokenizeShellCommand(command.trim());
+  if (tokens[0] !== 'curl') {
+    throw createValidationError('Not a curl command (expected it to start with "curl")');
+  }
+
+  const result: ParsedCurl = { headers: {} };
+  const cookieParts: string[] = [];
+
+  const addHeader = (raw: string) => {
+    const separator = raw.indexOf(':');
+    if (separator <= 0) return;
+    const name = raw.slice(0, separator).trim().toLowerCase();
+    const value = raw.slice(separator + 1).trim();
+    if (name === 'cookie') {
+      cookieParts.push(value);
+    } else if (!IGNORED_HEADERS.has(name) && !name.startsWith(':')) {
+      result.headers[name] = value;
+    }
+  };
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = () => tokens[++i] ?? '';
+
+    switch (token) {
+      case '-H':
+      case '--header':
+        addHeader(next());
+        break;
+      case '-b':
+      case '--cookie':
+        cookieParts.push(next());
+        break;
+      case '-A':
+      case '--user-agent':
+        result.headers['user-agent'] = next();
+        break;
+      case '-e':
+      case '--referer':
+        result.headers['referer'] = next();
+        break;
+      case '-X':
+      case '--request':
+        result.method = next().toUpperCase();
+        break;
+      case '--url':
+        result.url = next();
+        break;
+      case '-d':
+      case '--data':
+      case '--data-raw':
+      case '--data-binary':
+      case '--data-urlencode':
+      case '-u':
+      case '--user':
+      case '-o':
+      case '--output':
+        // Request bodies and outputs don't matter for replaying authentication
+        next();
+        break;
+      default:
+        if (!token.startsWith('-') && !result.url) {
+          result.url = token;
+        }
+    }
+  }
+
+  const cookies = cookieParts.map(part => part.trim().replace(/;\s*$/, '')).filter(Boolean).join('; ');
+  if (cookies) result.cookies = cookies;
+
+  return result;
+}
+
+/**
+ * Headers safe to persist in the plain-text config (no cookies or tokens).
+ */
+export function getPersistableHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !SECRET_HEADERS.has(name.toLowerCase())));
+}
+
+export function loadCurlFile(filePath: string): ParsedCurl {
+  if (!FileUtils.fileExists(filePath)) {
+    throw createValidationError(`curl file not found: ${filePath}`, { filePath });
+  }
+  return parseCurlCommand(FileUtils.readFile(filePath));
+}
@@ -0,0 +1,5 @@
+// Authentication helpers exports
+export * from './curl-parser';
+export * from './cookie-jar';
+export * from './credential-store';
+export * from './passphrase';
@@ -0,0 +1,54 @@
+import * as readline from 'readline';
+import { AUTH_CONFIG } from '../../config/constants';
+import { createValidationError } from '../../utils/common/error-handler';
+
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    let muted = false;
+
+    // Echo the question, then swallow everything typed after it
+    const writable = rl as unknown as { _writeToOutput: (text: string) => void };
+    writable._writeToOutput = (text: string) => {
+      if (!muted) process.stdout.write(text);
+    };
+
+    rl.on('SIGINT', () => {
+      rl.close();
+      process.stdout.write('\n');
+      reject(createValidationError('Passphrase entry cancelled'));
+    });
+
+    rl.question(question, answer => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Passphrase for the credential store, from SORA_DL_PASSPHRASE or an
+ * interactive prompt. With `confirm`, a prompted passphrase must be typed
+ * twice (used when encrypting).
+ */
+export async function readPassphrase(question: string, options: { confirm?: boolean } = {}): Promise<string> {
+  const fromEnv = process.env[AUTH_CONFIG.PASSPHRASE_ENV];
+  if (fromEnv) return fromEnv;
+
+  if (!process.stdin.isTTY) {
+    throw createValidationError(`No passphrase available: set ${AUTH_CONFIG.PASSPHRASE_ENV} when not running interactively`);
+  }
+
+  const passphrase = await promptHidden(question);
+  if (!passphrase) {
+    throw createValidationError('Passphrase must not be empty');
+  }
+
+  if (options.confirm && (await promptHidden('Repeat passphrase: ')) !== passphrase) {
+    throw createValidationError('Passphrases do not match');
+  }
+
+  return passphrase;
+}
@@ -1,30 +1,128 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
-import { VideoItem, DownloadOptions } from '../../types';
+import {
+  VideoItem,
+  DownloadOptions,
+  FileDownloadOptions,
+  FileDownloadResult,
+  NameCollision,
+  FileIntegrity,
+  DownloadIntegrity,
+  MediaCheckResult,
+  VideoVariant,
+  VariantSelection
+} from '../../types';
 import { log } from '../../logger';
 import { APP_CONFIG, FILE_CONFIG } from '../../config/constants';
 import { withRetry } from '../../utils/common/retry';
+import { CircuitBreaker } from '../../utils/common/circuit-breaker';
 import { FileUtils } from '../../utils/common/file-utils';
 import { FormatUtils } from '../../utils/formatting';
-import { createFileSystemError, createNetworkError } from '../../utils/common/error-handler';
+import { createFileSystemError, createNetworkError, CircuitOpenError } from '../../utils/common/error-handler';
 import { BaseService } from '../services/base-service';
 import { ProgressManager, BatchProgressManager } from '../services/progress-manager';
+import { DownloadQueue } from '../services/download-queue';
+import { DownloadArchive } from '../services/download-archive';
+import { LibraryIndex } from '../services/library-index';
+import { BandwidthLimiter } from '../services/bandwidth-limiter';
+import { RequestPacer } from '../services/request-pacer';
+import { OutputTemplate } from './output-template';
+import { selectVariants } from '../feed/normalize';
+import { Mp4Utils } from '../../utils/media/mp4';
+import { WebpUtils } from '../../utils/media/webp';
+import { Mp4Tagger } from '../../utils/media/mp4-tags';
+import { Sidecar } from './sidecar';
+import { SidecarWriter, SidecarWriters } from './sidecar-writers';
 import { ValidationUtils } from '../../utils/validation';
 
+interface OutputPaths {
+  stem: string;
+  videoPath: string;
+  thumbnailPath: string;
+  metadataPath: string;
+}
+
+interface StemOwner {
+  id: string;
+  variant: VideoVariant;
+}
+
+const DOWNLOAD_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
+  'Referer': 'https://sora.chatgpt.com/'
+};
+
+function parseContentRange(header: unknown): { start: number; total?: number } | undefined {
+  // e.g. "bytes 1000-4999/5000" or "bytes */5000" on a 416 response
+  const match = /^bytes (?:(\d+)-\d+|\*)\/(\d+|\*)$/.exec(String(header || '').trim());
+  if (!match) return undefined;
+  return {
+    start: match[1] !== undefined ? parseInt(match[1], 10) : 0,
+    total: match[2] !== '*' ? parseInt(match[2], 10) : undefined
+  };
+}
+
 export class VideoDownloader extends BaseService {
   private outputDir: string;
   private overwrite: boolean;
+  private requestTimeoutMs: number;
+  private archive?: DownloadArchive;
+  // Set when --download-archive names the file instead of the output directory
+  private customArchivePath?: string;
+  private library: LibraryIndex;
+  private maxPerHost?: number;
+  private template: OutputTemplate;
+  private variant: VariantSelection;
+  private embedMetadata: boolean;
+  private sidecarWriters: SidecarWriter[];
+  // Rendered path stem -> owning video, so distinct videos in one run never share a name
+  private claimedStems: Map<string, StemOwner> = new Map();
+  private collisions: NameCollision[] = [];
+  // Shared by every concurrent transfer so --limit-rate caps the total
+  private bandwidthLimiter?: BandwidthLimiter;
+  private requestPacer: RequestPacer;
+  private circuitBreaker: CircuitBreaker = new CircuitBreaker();
 
   constructor(options: DownloadOptions = {}) {
     super('VideoDownloader');
     
     this.outputDir = options.outputDir || APP_CONFIG.DEFAULT_OUTPUT_DIR;
     this.overwrite = options.overwrite || false;
+    this.requestTimeoutMs = options.requestTimeoutMs || APP_CONFIG.REQUEST_TIMEOUT_MS;
+    this.maxPerHost = options.maxPerHost;
+    this.template = new OutputTemplate(options.outputTemplate || FILE_CONFIG.DEFAULT_OUTPUT_TEMPLATE);
+    this.variant = options.variant || 'source';
+    this.embedMetadata = options.embedMetadata || false;
+    this.sidecarWriters = SidecarWriters.create(options.sidecarFormats, {
+      nfoType: options.nfoType,
+      subtitleDetails: options.subtitleDetails
+    });
+
+    if (options.limitRate && options.limitRate > 0) {
+      this.bandwidthLimiter = new BandwidthLimiter(options.limitRate);
+    }
+    this.requestPacer = new RequestPacer(options.requestDelayMs, options.requestJitterMs);
+
+    this.customArchivePath = options.archivePath;
+    if (options.useArchive !== false) {
+      this.archive = new DownloadArchive(options.archivePath || FileUtils.joinPaths(this.outputDir, FILE_CONFIG.ARCHIVE_FILE));
+    }
+    this.library = new LibraryIndex(LibraryIndex.getDefaultPath(this.outputDir));
 
     this.logOperation('constructor', {
       outputDir: this.outputDir,
-      overwrite: this.overwrite
+      overwrite: this.overwrite,
+      archivePath: this.archive?.getPath(),
+      libraryPath: this.library.getPath(),
+      maxPerHost: this.maxPerHost,
+      outputTemplate: this.template.toString(),
+      variant: this.variant,
+      embedMetadata: this.embedMetadata,
+      sidecarFormats: this.sidecarWriters.map(writer => writer.format),
+      limitRate: this.bandwidthLimiter?.getBytesPerSecond(),
+      requestDelayMs: options.requestDelayMs,
+      requestJitterMs: options.requestJitterMs
     });
 
     // Ensure all directories exist
@@ -40,14 +138,82 @@ export class VideoDownloader extends BaseService {
     FileUtils.ensureDirectoriesExist(dirs);
   }
 
+  /**
+   * Pick the output name for a video. A name is taken when another video
+   * claimed it earlier in this run or when its metadata sidecar on disk
+   * records a different post id; taken names get a numeric suffix instead of
+   * being skipped as "already downloaded" or overwritten.
+   */
+  private resolveOutputPaths(video: VideoItem): OutputPaths {
+    const relativePath = this.template.render(video);
+    const extension = path.extname(relativePath);
+    const variant = video.variant || 'source';
+    const baseStem = relativePath.slice(0, relativePath.length - extension.length) +
+      (variant === 'watermarked' ? FILE_CONFIG.WATERMARK_SUFFIX : '');
+
+    let stem = baseStem;
+    let conflictingId: string | undefined;
+    for (let suffix = 2; ; suffix++) {
+      const owner = this.claimedStems.get(stem) ?? this.readSidecarOwner(this.buildOutputPaths(stem, extension).metadataPath);
+      if (!owner || (owner.id === video.id && owner.variant === variant)) break;
+      conflictingId = conflictingId ?? owner.id;
+      stem = `${baseStem}_${suffix}`;
+    }
+
+    const paths = this.buildOutputPaths(stem, extension);
+    if (conflictingId) {
+      const collision: NameCollision = {
+        videoId: video.id,
+        conflictingId,
+        requestedPath: this.buildOutputPaths(baseStem, extension).videoPath,
+        resolvedPath: paths.videoPath
+      };
+      this.collisions.push(collision);
+      log.warn('Output name belongs to a different post, using a disambiguated name', { ...collision });
+    }
+    this.claimedStems.set(stem, { id: video.id, variant });
+
+    return paths;
+  }
+
+  private buildOutputPaths(stem: string, extension: string): OutputPaths {
+    return {
+      stem,
+      videoPath: FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.VIDEOS, `${stem}${extension}`),
+      thumbnailPath: FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.VIDEOS, `${stem}${FILE_CONFIG.EXTENSIONS.THUMBNAIL}`),
+      metadataPath: FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.METADATA, `${stem}${FILE_CONFIG.EXTENSIONS.METADATA}`)
+    };
+  }
+
+  private readSidecarOwner(metadataPath: string): StemOwner | undefined {
+    if (!FileUtils.fileExists(metadataPath)) return undefined;
+    try {
+      const sidecar = Sidecar.read(metadataPath);
+      return { id: sidecar.id, variant: sidecar.variant };
+    } catch (error) {
+      log.warn('Unreadable metadata sidecar, assuming no owner', { metadataPath, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Metadata sidecars mirror the video's location below the videos directory.
+   */
+  private getMetadataPath(videoPath: string): string {
+    const relativePath = FileUtils.getRelativePath(FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.VIDEOS), videoPath);
+    const stem = relativePath.slice(0, relativePath.length - path.extname(relativePath).length);
+    return FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.METADATA, `${stem}${FILE_CONFIG.EXTENSIONS.METADATA}`);
+  }
+
   private async retryableRequest<T>(
     requestFn: () => Promise<T>,
-    operation: string = 'request'
+    operation: string = 'request',
+    url?: string
   ): Promise<T> {
     return withRetry(requestFn, { 
       operation,
-      maxAttempts: APP_CONFIG.MAX_RETRY_ATTEMPTS,
-      baseDelayMs: APP_CONFIG.RETRY_BASE_DELAY_MS
+      circuitBreaker: this.circuitBreaker,
+      circuitKey: DownloadQueue.hostOf(url)
     });
   }
 
@@ -60,149 +226,290 @@ export class VideoDownloader extends BaseService {
     ValidationUtils.validateRequired(video.title, 'video.title');
     ValidationUtils.validateUrl(video.videoUrl, 'video.videoUrl');
 
-    const fileName = FileUtils.sanitizeFileName(video.title);
-    const videoPath = FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.VIDEOS, `${fileName}${FILE_CONFIG.EXTENSIONS.VIDEO}`);
-    const thumbnailPath = FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.VIDEOS, `${fileName}${FILE_CONFIG.EXTENSIONS.THUMBNAIL}`);
+    const outputPaths = this.resolveOutputPaths(video);
+    const { videoPath, thumbnailPath, metadataPath } = outputPaths;
+    const fileName = path.basename(videoPath);
 
     this.logOperation('downloadVideo', {
       fileName,
       videoPath,
+      variant: video.variant,
       videoUrl: video.videoUrl,
       hasThumbnail: !!video.thumbnailUrl
     });
 
     // Check if video already exists
     if (FileUtils.fileExists(videoPath) && !this.overwrite) {
+      this.indexExistingDownload(video, outputPaths);
       this.logOperationEnd('downloadVideo', { videoId: video.id, skipped: true });
       return videoPath;
     }
 
-    return this.retryableRequest(async (): Promise<string> => {
+    try {
+      FileUtils.ensureDirectoriesExist([path.dirname(videoPath), path.dirname(metadataPath)]);
+
+      // Start from scratch when overwriting instead of resuming a stale partial file
+      if (this.overwrite) {
+        FileUtils.deleteFile(`${videoPath}${FILE_CONFIG.EXTENSIONS.PARTIAL}`);
+      }
+
+      const download = await this.downloadFile(video.videoUrl, videoPath, {
+        timeoutMs: this.requestTimeoutMs,
+        operation: `downloadVideo-${video.id}`,
+        progressId: video.id
+      });
+
+      log.debug('Video download completed', {
+        videoId: video.id,
+        fileName,
+        downloadedBytes: download.bytes,
+        resumed: download.resumed,
+        duration: download.durationMs,
+        avgSpeed: FormatUtils.formatSpeed(download.durationMs > 0 ? download.bytes / (download.durationMs / 1000) : 0)
+      });
+
+      const videoCheck = this.checkVideoContainer(videoPath);
+      if (!videoCheck.valid) {
+        // Nothing usable to keep; the next run downloads it from scratch
+        FileUtils.deleteFile(videoPath);
+        throw createFileSystemError(`Downloaded file is not a valid MP4 (${videoCheck.reason})`, {
+          videoId: video.id,
+          videoUrl: video.videoUrl
+        });
+      }
+
+      // Thumbnail failures are logged by downloadThumbnail and never fail the video
+      const actualThumbnailPath = video.thumbnailUrl ? await this.downloadThumbnail(video.thumbnailUrl, thumbnailPath) : '';
+
+      // Before hashing, so the recorded integrity matches the tagged file
+      const embedded = this.embedMetadata && await this.embedVideoMetadata(video, videoPath, actualThumbnailPath || undefined);
+
+      const integrity: DownloadIntegrity = { video: await this.describeFile(videoPath, videoCheck) };
+      if (actualThumbnailPath) {
+        const thumbnailCheck = WebpUtils.validate(actualThumbnailPath);
+        if (!thumbnailCheck.valid) {
+          log.warn('Thumbnail is not a valid WebP image', { videoId: video.id, reason: thumbnailCheck.reason });
+        }
+        integrity.thumbnail = await this.describeFile(actualThumbnailPath, thumbnailCheck);
+      }
+
+      const sidecarPaths = this.writeMetadata(video, videoPath, actualThumbnailPath || undefined, integrity);
+
+      log.info('Video download and processing completed', {
+        videoId: video.id,
+        fileName,
+        videoPath,
+        thumbnailPath: actualThumbnailPath,
+        sidecarPaths
+      });
+
+      console.log(`\nDownloaded: ${fileName}${download.resumed ? ' (resumed)' : ''}`);
+      if (actualThumbnailPath) {
+        console.log(`Thumbnail: ${path.basename(actualThumbnailPath)}`);
+      }
+      if (sidecarPaths.length > 0 || embedded) {
+        const names = sidecarPaths.map(sidecarPath => path.basename(sidecarPath));
+        console.log(`Metadata: ${[...names, ...(embedded ? ['embedded in the video'] : [])].join(', ')}`);
+      }
+
+      this.logOperationEnd('downloadVideo', {
+        videoId: video.id,
+        fileName,
+        success: true,
+        downloadedBytes: download.bytes,
+        duration: download.durationMs,
+        thumbnailFailed: !!video.thumbnailUrl && !actualThumbnailPath,
+        embedFailed: this.embedMetadata && !embedded
+      });
+      return videoPath;
+    } catch (error) {
+      log.error('Video download failed after retries', { videoId: video.id, fileName }, error as Error);
+      this.logOperationEnd('downloadVideo', { videoId: video.id, success: false });
+
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Failed to download video: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Tag the video with its title, author, prompt, posting date and permalink,
+   * with the thumbnail as cover art. Like thumbnail failures, a failure is
+   * logged and leaves the untagged video in place.
+   */
+  private async embedVideoMetadata(video: VideoItem, videoPath: string, thumbnailPath?: string): Promise<boolean> {
+    try {
+      const cover = await this.getCoverArt(video, thumbnailPath);
+      Mp4Tagger.write(videoPath, {
+        title: video.title,
+        artist: video.author,
+        comment: video.prompt,
+        date: video.createdAt,
+        permalink: video.permalink,
+        cover
+      });
+      log.debug('Embedded metadata in video', { videoId: video.id, videoPath, cover: !!cover });
+      return true;
+    } catch (error) {
+      log.warn('Failed to embed metadata in video', { videoId: video.id, videoPath, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Cover art for `--embed-metadata`. Sora thumbnails are WebP, which players
+   * don't show as cover art, so the post's preview image (PNG or JPEG) is
+   * fetched instead. Returns undefined when neither is usable.
+   */
+  private async getCoverArt(video: VideoItem, thumbnailPath?: string): Promise<Buffer | undefined> {
+    const thumbnail = thumbnailPath ? fs.readFileSync(thumbnailPath) : undefined;
+    if (thumbnail && Mp4Tagger.getImageDataType(thumbnail) !== undefined) return thumbnail;
+
+    const previewUrl = video.post?.preview_image_url;
+    if (!previewUrl) return undefined;
+    try {
+      const image = await this.retryableRequest(async () => {
+        await this.requestPacer.wait('downloadCoverArt');
+        const response = await axios.get<ArrayBuffer>(previewUrl, {
+          responseType: 'arraybuffer',
+          timeout: APP_CONFIG.THUMBNAIL_TIMEOUT_MS,
+          headers: DOWNLOAD_HEADERS
+        });
+        return Buffer.from(response.data);
+      }, 'downloadCoverArt', previewUrl);
+
+      if (Mp4Tagger.getImageDataType(image) === undefined) {
+        log.debug('Preview image is not a JPEG, PNG or BMP image, leaving out cover art', { videoId: video.id, previewUrl });
+        return undefined;
+      }
+      return image;
+    } catch (error) {
+      log.warn('Cover art download failed, embedding metadata without it', { videoId: video.id, previewUrl, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Stream a URL to disk through a `.part` file. An existing partial file is
+   * resumed with a Range request when the server answers 206; otherwise the
+   * transfer restarts. The file is only renamed into place once its size
+   * matches what the server announced, so truncated downloads never look
+   * complete.
+   */
+  async downloadFile(url: string, destPath: string, options: FileDownloadOptions = {}): Promise<FileDownloadResult> {
+    const partPath = `${destPath}${FILE_CONFIG.EXTENSIONS.PARTIAL}`;
+    const operation = options.operation || 'downloadFile';
+
+    return this.retryableRequest(async (): Promise<FileDownloadResult> => {
+      const existingBytes = FileUtils.fileExists(partPath) ? FileUtils.getFileSize(partPath) : 0;
+
+      await this.requestPacer.wait(operation);
+
       const response = await axios({
         method: 'GET',
-        url: video.videoUrl,
+        url,
         responseType: 'stream',
-        timeout: APP_CONFIG.REQUEST_TIMEOUT_MS,
+        timeout: options.timeoutMs ?? this.requestTimeoutMs,
         headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
-          'Referer': 'https://sora.chatgpt.com/'
-        }
+          ...DOWNLOAD_HEADERS,
+          ...(existingBytes > 0 && { 'Range': `bytes=${existingBytes}-` })
+        },
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 416
       });
 
-      const totalLength = parseInt(response.headers['content-length'] || '0', 10);
+      const contentRange = parseContentRange(response.headers['content-range']);
 
-      log.debug('Video download response received', {
-        videoId: video.id,
+      if (response.status === 416) {
+        response.data.destroy();
+        // A complete partial file makes the Range unsatisfiable; anything else is stale
+        if (contentRange?.total === existingBytes && existingBytes > 0) {
+          FileUtils.renameFile(partPath, destPath);
+          return { path: destPath, bytes: existingBytes, resumed: true, durationMs: 0 };
+        }
+        FileUtils.deleteFile(partPath);
+        throw createNetworkError('Range not satisfiable for partial download, restarting', { url, existingBytes });
+      }
+
+      const resumed = existingBytes > 0 && response.status === 206 && contentRange?.start === existingBytes;
+      if (existingBytes > 0 && !resumed) {
+        log.debug('Server ignored range request, restarting download', {
+          operation,
+          statusCode: response.status,
+          existingBytes
+        });
+      }
+
+      const contentLength = parseInt(String(response.headers['content-length'] || '0'), 10);
+      const offset = resumed ? existingBytes : 0;
+      const expectedBytes = contentRange?.total ?? (contentLength > 0 ? offset + contentLength : 0);
+
+      log.debug('Download response received', {
+        operation,
         statusCode: response.status,
         contentType: response.headers['content-type'],
-        contentLength: totalLength,
-        contentLengthFormatted: FormatUtils.formatBytes(totalLength)
+        contentLength,
+        expectedBytes,
+        expectedBytesFormatted: FormatUtils.formatBytes(expectedBytes),
+        resumedFrom: offset
       });
 
-      let downloadedBytes = 0;
+      let downloadedBytes = offset;
       const startedAt = Date.now();
+      const writer = FileUtils.createWriteStream(partPath, resumed);
+      // Progress is measured after the throttle so reported speed is the capped rate
+      const source = this.bandwidthLimiter ? response.data.pipe(this.bandwidthLimiter.createThrottle()) : response.data;
 
-      const writer = FileUtils.createWriteStream(videoPath);
-
-      response.data.on('data', (chunk: Buffer) => {
+      source.on('data', (chunk: Buffer) => {
         downloadedBytes += chunk.length;
+        if (!options.progressId) return;
+
         const elapsedSec = Math.max(1, Math.floor((Date.now() - startedAt) / 1000));
-        const bytesPerSec = Math.floor(downloadedBytes / elapsedSec);
-        
+        const bytesPerSec = Math.floor((downloadedBytes - offset) / elapsedSec);
+
         this.logOperation('downloadProgress', {
-          videoId: video.id,
+          videoId: options.progressId,
           downloaded: FormatUtils.formatBytes(downloadedBytes),
-          total: FormatUtils.formatBytes(totalLength),
+          total: FormatUtils.formatBytes(expectedBytes),
           speed: FormatUtils.formatSpeed(bytesPerSec),
-          percent: totalLength > 0 ? Math.round((downloadedBytes / totalLength) * 100) : 0
+          ...(this.bandwidthLimiter && { limit: FormatUtils.formatSpeed(this.bandwidthLimiter.getBytesPerSecond()) }),
+          percent: expectedBytes > 0 ? Math.round((downloadedBytes / expectedBytes) * 100) : 0
         });
       });
 
-      response.data.pipe(writer);
-
-      return new Promise<string>((resolve, reject) => {
-        writer.on('finish', () => {
-          const downloadDuration = Date.now() - startedAt;
-          const avgSpeed = downloadedBytes > 0 ? downloadedBytes / (downloadDuration / 1000) : 0;
-          
-          log.debug('Video download completed', {
-            videoId: video.id,
-            fileName,
-            downloadedBytes,
-            totalLength,
-            duration: downloadDuration,
-            avgSpeed: FormatUtils.formatSpeed(avgSpeed)
-          });
-
-          // Download thumbnail if available
-          const thumbnailPromise = video.thumbnailUrl ? this.downloadThumbnail(video.thumbnailUrl, thumbnailPath) : Promise.resolve('');
-
-          thumbnailPromise.then((actualThumbnailPath) => {
-            // Use unified metadata writing
-            const writtenMetadataPath = this.writeMetadata(video, videoPath, actualThumbnailPath || undefined);
-
-            log.info('Video download and processing completed', {
-              videoId: video.id,
-              fileName,
-              videoPath,
-              thumbnailPath: actualThumbnailPath,
-              metadataPath: writtenMetadataPath
-            });
-
-            console.log(`\nDownloaded: ${fileName}.mp4`);
-            if (video.thumbnailUrl) {
-              console.log(`Thumbnail: ${fileName}_thumbnail.webp`);
-            }
-            console.log(`Metadata: ${path.basename(writtenMetadataPath)}`);
-
-            log.endTimer('downloadVideo', {
-              videoId: video.id,
-              fileName,
-              success: true,
-              downloadedBytes,
-              duration: downloadDuration
-            });
-            resolve(videoPath);
-          }).catch(thumbnailError => {
-            log.warn('Thumbnail download failed, continuing with video', {
-              videoId: video.id,
-              thumbnailError: (thumbnailError as Error).message
-            });
-
-            const writtenMetadataPath = this.writeMetadata(video, videoPath);
-            log.endTimer('downloadVideo', {
-              videoId: video.id,
-              fileName,
-              success: true,
-              downloadedBytes,
-              duration: downloadDuration,
-              thumbnailFailed: true
-            });
-            resolve(videoPath);
-          });
-        });
-
+      await new Promise<void>((resolve, reject) => {
+        writer.on('finish', () => resolve());
         writer.on('error', (error) => {
-          log.error('Error writing video file', { videoId: video.id, fileName, videoPath }, error);
-          log.endTimer('downloadVideo', { videoId: video.id, success: false });
+          log.error('Error writing file', { operation, partPath }, error);
           reject(error);
         });
-
-        response.data.on('error', (error: any) => {
-          log.error('Error during video download stream', { videoId: video.id, fileName }, error);
-          log.endTimer('downloadVideo', { videoId: video.id, success: false });
-          reject(error);
+        response.data.on('error', (error: Error) => {
+          log.error('Error during download stream', { operation }, error);
+          const streamError = createNetworkError(`Download stream interrupted: ${error.message}`, { url, downloadedBytes });
+          // Keep the partial file so the next attempt can resume from it, but only
+          // reject once it is flushed and closed so the retry's Range start is its real size
+          writer.once('close', () => reject(streamError));
+          source.unpipe(writer);
+          writer.end();
         });
+        source.pipe(writer);
       });
-    }, `downloadVideo-${video.id}`).catch(error => {
-      log.error('Video download failed after retries', { videoId: video.id, fileName }, error);
-      log.endTimer('downloadVideo', { videoId: video.id, success: false });
 
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Failed to download video: ${error.message}`);
+      const actualBytes = FileUtils.getFileSize(partPath);
+      if (expectedBytes > 0 && actualBytes !== expectedBytes) {
+        if (actualBytes > expectedBytes) {
+          FileUtils.deleteFile(partPath);
+        }
+        throw createNetworkError(`Incomplete download: received ${actualBytes} of ${expectedBytes} bytes`, {
+          url,
+          actualBytes,
+          expectedBytes
+        });
       }
-      throw error;
-    });
+
+      FileUtils.renameFile(partPath, destPath);
+      return { path: destPath, bytes: actualBytes, resumed, durationMs: Date.now() - startedAt };
+    }, operation, url);
   }
 
   async downloadMultipleVideos(videos: VideoItem[]): Promise<string[]> {
@@ -230,38 +537,57 @@ export class VideoDownloader extends BaseService {
     ValidationUtils.validateArray(videos, 'videos', 1);
     ValidationUtils.validatePositiveInteger(maxConcurrent, 'maxConcurrent');
 
+    const requestedCount = videos.length;
+    videos = videos.flatMap(video => this.selectVariants(video));
+    if (videos.length < requestedCount && this.variant !== 'both') {
+      console.log(`⏭️  Skipping ${requestedCount - videos.length} videos without a ${this.variant} encoding`);
+    }
+
+    const selectedCount = videos.length;
+    videos = videos.filter(video => !this.isArchived(video.id, video.generationId, video.variant));
+    if (videos.length < selectedCount) {
+      console.log(`⏭️  Skipping ${selectedCount - videos.length} videos already in the download archive`);
+    }
+    if (videos.length === 0) {
+      this.logOperationEnd('downloadAllFromFeed', { totalVideos: 0, skippedArchived: selectedCount });
+      return [];
+    }
+
     const batchProgress = new BatchProgressManager('downloadAllFromFeed');
     const progress = batchProgress.createProgress('main', {
       total: videos.length,
       title: 'Downloading videos',
-      showProgress: true
+      showProgress: true,
+      showQueueStats: true
     });
 
-    const results: string[] = [];
     let successCount = 0;
     let failureCount = 0;
-    const totalBatches = Math.ceil(videos.length / maxConcurrent);
-
-    // Process videos in batches
-    for (let i = 0; i < videos.length; i += maxConcurrent) {
-      const batch = videos.slice(i, i + maxConcurrent);
-      const batchIndex = Math.floor(i / maxConcurrent);
-
-      log.debug('Processing batch', {
-        batchIndex: batchIndex + 1,
-        totalBatches,
-        batchSize: batch.length,
-        videoIds: batch.map(v => v.id)
-      });
+    let abortedCount = 0;
+
+    // Workers pick up the next video as soon as one finishes, so a slow
+    // transfer only occupies its own slot
+    const queue = new DownloadQueue<string>({
+      concurrency: maxConcurrent,
+      perHostLimit: this.maxPerHost,
+      name: 'downloadAllFromFeed',
+      onStatsChange: stats => progress.setQueueStats(stats)
+    });
 
-      const batchPromises = batch.map(async (video) => {
-        try {
-          const result = await this.downloadVideo(video);
+    const settled = await Promise.all(videos.map(video =>
+      queue.push(async () => {
+        const result = await this.downloadVideo(video);
+        this.recordArchive(video.id, video.generationId, video.variant);
+        return result;
+      }, DownloadQueue.hostOf(video.videoUrl)).then(
+        (result) => {
           successCount++;
           progress.update(1, `Downloaded: ${video.title}`);
           return result;
-        } catch (error) {
+        },
+        (error) => {
           failureCount++;
+          if (error instanceof CircuitOpenError) abortedCount++;
           progress.update(1, `Failed: ${video.title}`);
           this.logOperation('downloadVideo', {
             error: true,
@@ -271,27 +597,21 @@ export class VideoDownloader extends BaseService {
           });
           return null;
         }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-      const batchSuccesses = batchResults.filter((result): result is string => result !== null);
-      results.push(...batchSuccesses);
-
-      this.logOperation('batchComplete', {
-        batchIndex: batchIndex + 1,
-        totalBatches,
-        batchSuccesses: batchSuccesses.length,
-        batchFailures: batch.length - batchSuccesses.length
-      });
-    }
+      )
+    ));
+    const results = settled.filter((result): result is string => result !== null);
 
     progress.complete(`Completed: ${successCount}/${videos.length} videos downloaded`);
     batchProgress.completeAll();
+    if (abortedCount > 0) {
+      console.error(`⛔ Skipped ${abortedCount} videos after their host kept failing`);
+    }
 
     this.logOperationEnd('downloadAllFromFeed', {
       totalVideos: videos.length,
       successCount,
       failureCount,
+      abortedCount,
       successRate: `${((successCount / videos.length) * 100).toFixed(1)}%`
     });
 
@@ -299,64 +619,162 @@ export class VideoDownloader extends BaseService {
   }
 
 
+  getOutputTemplate(): string {
+    return this.template.toString();
+  }
+
+  getCollisions(): NameCollision[] {
+    return [...this.collisions];
+  }
+
   setOutputDir(dir: string): void {
     this.outputDir = dir;
     FileUtils.ensureDirectoryExists(this.outputDir);
+
+    // The archive, library index and claimed names belong to the old directory
+    if (this.archive && !this.customArchivePath) {
+      this.archive = new DownloadArchive(FileUtils.joinPaths(this.outputDir, FILE_CONFIG.ARCHIVE_FILE));
+    }
+    this.library = new LibraryIndex(LibraryIndex.getDefaultPath(this.outputDir));
+    this.claimedStems.clear();
   }
 
   setOverwrite(overwrite: boolean): void {
     this.overwrite = overwrite;
   }
 
-  private async downloadThumbnail(thumbnailUrl: string, outputPath: string): Promise<string> {
-    return this.retryableRequest(async (): Promise<string> => {
-      const response = await axios({
-        method: 'GET',
-        url: thumbnailUrl,
-        responseType: 'stream',
-        timeout: APP_CONFIG.THUMBNAIL_TIMEOUT_MS,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
-          'Referer': 'https://sora.chatgpt.com/'
-        }
-      });
+  /**
+   * Whether a post was already fetched in a previous run. Overwrite mode
+   * re-downloads regardless of the archive.
+   */
+  isArchived(id: string, generationId?: string, variant?: VideoVariant): boolean {
+    return !!this.archive && !this.overwrite && this.archive.has(id, generationId, variant);
+  }
+
+  recordArchive(id: string, generationId?: string, variant?: VideoVariant): void {
+    this.archive?.add(id, generationId, variant);
+  }
+
+  /**
+   * One item per encoding chosen by the --variant setting.
+   */
+  selectVariants(video: VideoItem): VideoItem[] {
+    return selectVariants(video, this.variant);
+  }
+
+  getVariant(): VariantSelection {
+    return this.variant;
+  }
 
-      const writer = FileUtils.createWriteStream(outputPath);
-      response.data.pipe(writer);
+  rebuildArchive(): number {
+    if (!this.archive) return 0;
+    return this.archive.rebuildFromMetadata(FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.METADATA));
+  }
+
+  getArchivePath(): string | undefined {
+    return this.archive?.getPath();
+  }
 
-      return new Promise<string>((resolve, reject) => {
-        writer.on('finish', () => resolve(outputPath));
-        writer.on('error', reject);
-        response.data.on('error', reject);
+  /**
+   * The pacer spacing this downloader's CDN requests; share it with the API
+   * client so feed and file requests are paced together.
+   */
+  getRequestPacer(): RequestPacer {
+    return this.requestPacer;
+  }
+
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  private async downloadThumbnail(thumbnailUrl: string, outputPath: string): Promise<string> {
+    try {
+      const result = await this.downloadFile(thumbnailUrl, outputPath, {
+        timeoutMs: APP_CONFIG.THUMBNAIL_TIMEOUT_MS,
+        operation: 'downloadThumbnail'
+      });
+      return result.path;
+    } catch (error) {
+      log.warn('Thumbnail download failed, continuing with video', {
+        thumbnailUrl,
+        thumbnailError: (error as Error).message
       });
-    }, 'downloadThumbnail').catch(error => {
       console.warn(`Failed to download thumbnail: ${error}`);
       return '';
-    });
+    }
+  }
+
+  private checkVideoContainer(videoPath: string): MediaCheckResult {
+    if (!FILE_CONFIG.MP4_EXTENSIONS.includes(FileUtils.getFileExtension(videoPath))) {
+      return { valid: true };
+    }
+    return Mp4Utils.validate(videoPath);
+  }
+
+  private async describeFile(filePath: string, check: MediaCheckResult): Promise<FileIntegrity> {
+    return {
+      file: FileUtils.getRelativePath(this.outputDir, filePath).split(path.sep).join('/'),
+      bytes: FileUtils.getFileSize(filePath),
+      sha256: await FileUtils.hashFile(filePath),
+      valid: check.valid
+    };
   }
 
   /**
-   * Write unified metadata for any video download
+   * Add a video that is already on disk to the library index unless it is
+   * there, from its metadata sidecar or, without one, from the post.
    */
-  writeMetadata(video: VideoItem, videoPath: string, thumbnailPath?: string): string {
-    const fileName = FileUtils.sanitizeFileName(video.title);
-    const metadataPath = FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.METADATA, `${fileName}${FILE_CONFIG.EXTENSIONS.METADATA}`);
-
-    const metadata = {
-      id: video.id,
-      title: video.title,
-      description: video.description,
-      prompt: video.prompt,
-      video_url: video.videoUrl,
-      thumbnail_url: video.thumbnailUrl,
-      source: video.source,
-      generation_id: video.generationId,
-      video_path: videoPath,
-      thumbnail_path: thumbnailPath || (video.thumbnailUrl ? FileUtils.joinPaths(FileUtils.getDirectoryName(videoPath), `${fileName}${FILE_CONFIG.EXTENSIONS.THUMBNAIL}`) : undefined),
-      downloaded_at: new Date().toISOString()
-    };
+  private indexExistingDownload(video: VideoItem, paths: OutputPaths): void {
+    if (this.library.has({ id: video.id, generation_id: video.generationId, variant: video.variant || 'source' })) return;
+
+    try {
+      const { videoPath, thumbnailPath, metadataPath } = paths;
+      const entry = FileUtils.fileExists(metadataPath)
+        ? LibraryIndex.createEntry(Sidecar.read(metadataPath), this.outputDir, metadataPath, FileUtils.getRelativePath(this.outputDir, videoPath).split(path.sep).join('/'))
+        : LibraryIndex.createEntry(Sidecar.build(
+          video,
+          videoPath,
+          FileUtils.fileExists(thumbnailPath) ? thumbnailPath : undefined,
+          undefined,
+          Mp4Utils.readDuration(videoPath),
+          fs.statSync(videoPath).mtime
+        ), this.outputDir);
+      // A sidecar may record the post under a different key than the feed item
+      if (!this.library.has(entry)) this.library.add(entry);
+    } catch (error) {
+      log.warn('Failed to add existing download to the library index', { videoId: video.id, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Write the metadata sidecars selected for this downloader (the
+   * `_metadata.json` file unless configured otherwise) and record the
+   * download in the library index.
+   */
+  writeMetadata(video: VideoItem, videoPath: string, thumbnailPath?: string, integrity?: DownloadIntegrity): string[] {
+    const metadataPath = this.getMetadataPath(videoPath);
+    const videoStem = videoPath.slice(0, videoPath.length - path.extname(videoPath).length);
 
-    FileUtils.writeJSONFile(metadataPath, metadata);
-    return metadataPath;
+    const metadata = Sidecar.build(
+      video,
+      videoPath,
+      thumbnailPath || (video.thumbnailUrl ? `${videoStem}${FILE_CONFIG.EXTENSIONS.THUMBNAIL}` : undefined),
+      integrity,
+      Mp4Utils.readDuration(videoPath)
+    );
+
+    const sidecarPaths = this.sidecarWriters.map(writer => {
+      const sidecarPath = writer.getPath(videoPath, metadataPath);
+      FileUtils.writeFile(sidecarPath, writer.render(metadata));
+      return sidecarPath;
+    });
+
+    this.library.add(LibraryIndex.createEntry(metadata, this.outputDir, metadataPath));
+    return sidecarPaths;
   }
-}
\ No newline at end of file
+}
+
+export { OutputTemplate, TEMPLATE_FIELDS } from './output-template';
+export { DownloadVerifier } from './verifier';
+export { Sidecar } from './sidecar';
+export * from './sidecar-writers';
@@ -0,0 +1,111 @@
+import * as path from 'path';
+import { VideoItem } from '../../types';
+import { FILE_CONFIG } from '../../config/constants';
+import { FileUtils } from '../../utils/common/file-utils';
+import { createValidationError } from '../../utils/common/error-handler';
+
+type TemplateField = (video: VideoItem) => string | number | null | undefined;
+
+const MISSING_VALUE = 'NA';
+
+const postedAtSeconds = (video: VideoItem): number | undefined => {
+  if (video.post?.posted_at) return Math.floor(video.post.posted_at);
+  const parsed = video.createdAt ? Date.parse(video.createdAt) : NaN;
+  return isNaN(parsed) ? undefined : Math.floor(parsed / 1000);
+};
+
+export const TEMPLATE_FIELDS: Record<string, TemplateField> = {
+  id: video => video.id,
+  generation_id: video => video.generationId,
+  title: video => video.title,
+  source: video => video.source,
+  username: video => video.profile?.username,
+  display_name: video => video.profile?.display_name,
+  user_id: video => video.profile?.user_id || video.post?.shared_by,
+  posted_date: video => video.createdAt?.slice(0, 10),
+  posted_time: video => video.createdAt?.slice(11, 19).replace(/:/g, ''),
+  timestamp: postedAtSeconds,
+  width: video => video.attachment?.width,
+  height: video => video.attachment?.height,
+  like_count: video => video.post?.like_count,
+  view_count: video => video.post?.view_count,
+  remix_count: video => video.post?.remix_count,
+  ext: () => FILE_CONFIG.EXTENSIONS.VIDEO.slice(1)
+};
+
+const PLACEHOLDER = /\{([a-z_]+)(?::(\d+))?\}/g;
+
+/**
+ * Renders output paths such as `{username}/{posted_date}/{id}_{title:40}.{ext}`.
+ * `/` in the template separates directories; each field value is sanitized so
+ * it can never introduce its own path segments, and `{field:N}` truncates the
+ * value to N characters.
+ */
+export class OutputTemplate {
+  private template: string;
+  private hasExtension: boolean;
+
+  constructor(template: string = FILE_CONFIG.DEFAULT_OUTPUT_TEMPLATE) {
+    this.template = template.trim();
+    // Decided on the template itself so titles containing dots never pass for an extension
+    this.hasExtension = /\.(\{ext\}|[A-Za-z0-9]+)$/.test(this.template);
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!this.template) {
+      throw createValidationError('Output template must not be empty');
+    }
+    if (path.isAbsolute(this.template)) {
+      throw createValidationError('Output template must be a relative path', { template: this.template });
+    }
+
+    for (const match of this.template.matchAll(PLACEHOLDER)) {
+      if (!(match[1] in TEMPLATE_FIELDS)) {
+        throw createValidationError(`Unknown output template field: {${match[1]}}`, {
+          template: this.template,
+          availableFields: Object.keys(TEMPLATE_FIELDS)
+        });
+      }
+    }
+  }
+
+  /**
+   * Render the template for a video into a relative file path (including the
+   * extension) beneath the videos directory.
+   */
+  render(video: VideoItem): string {
+    const rendered = this.template.replace(PLACEHOLDER, (_match, field: string, maxLength?: string) => {
+      const raw = TEMPLATE_FIELDS[field](video);
+      let value = raw === undefined || raw === null || raw === '' ? MISSING_VALUE : String(raw);
+      if (maxLength) {
+        value = Array.from(value).slice(0, parseInt(maxLength, 10)).join('');
+      }
+      return FileUtils.sanitizeFileName(value) || MISSING_VALUE;
+    });
+
+    const segments = rendered
+      .split(/[\\/]+/)
+      .map(segment => segment.trim())
+      .filter(segment => segment && segment !== '.' && segment !== '..');
+
+    if (segments.length === 0) {
+      throw createValidationError('Output template rendered an empty path', { template: this.template, videoId: video.id });
+    }
+
+    const directories = segments.slice(0, -1).map(segment => FileUtils.truncateFileName(segment));
+    let fileName = segments[segments.length - 1];
+    let extension = path.extname(fileName);
+    if (!this.hasExtension || !extension) {
+      extension = FILE_CONFIG.EXTENSIONS.VIDEO;
+      fileName += extension;
+    }
+
+    const stem = FileUtils.truncateFileName(fileName.slice(0, -extension.length));
+    return path.join(...directories, `${stem}${extension}`);
+  }
+
+  toString(): string {
+    return this.template;
+  }
+}
@@ -0,0 +1,280 @@
+import * as path from 'path';
+import { VideoSidecar, NfoType } from '../../types';
+import { FILE_CONFIG } from '../../config/constants';
+import { createValidationError } from '../../utils/common/error-handler';
+
+export interface SidecarWriterOptions {
+  nfoType?: NfoType;
+  subtitleDetails?: boolean;
+}
+
+/**
+ * Renders one sidecar file for a downloaded video from its metadata.
+ */
+export interface SidecarWriter {
+  readonly format: string;
+  // `metadataPath` is the video's mirrored path under metadata/
+  getPath(videoPath: string, metadataPath: string): string;
+  render(sidecar: VideoSidecar): string;
+}
+
+export type SidecarWriterFactory = (options: SidecarWriterOptions) => SidecarWriter;
+
+export const NFO_TYPES: readonly NfoType[] = ['movie', 'musicvideo'];
+
+// Cue length when the video's duration couldn't be read (Sora clips run 5-20s)
+const FALLBACK_CUE_SECONDS = 10;
+
+function replaceExtension(videoPath: string, extension: string): string {
+  return videoPath.slice(0, videoPath.length - path.extname(videoPath).length) + extension;
+}
+
+function escapeXml(value: string): string {
+  // Control characters other than tab and newlines aren't allowed in XML 1.0
+  return [...value].filter(char => char.charCodeAt(0) >= 0x20 || char === '\t' || char === '\n' || char === '\r').join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 75.5 → "00:01:15,500" (SRT) or "00:01:15.500" (WebVTT)
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+// WebVTT cue text treats & and < as markup and may not contain "-->"
+function escapeCueText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+}
+
+function toEpochSeconds(isoTime: string | undefined): number | undefined {
+  const time = isoTime ? Date.parse(isoTime) : NaN;
+  return isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+/**
+ * The sidecar the downloader has always written (`metadata/<name>_metadata.json`).
+ * Archive rebuilds, `verify` and name-collision checks read it.
+ */
+export class JsonSidecarWriter implements SidecarWriter {
+  readonly format = 'json';
+
+  getPath(_videoPath: string, metadataPath: string): string {
+    return metadataPath;
+  }
+
+  render(sidecar: VideoSidecar): string {
+    return JSON.stringify(sidecar, null, 2);
+  }
+}
+
+/**
+ * Kodi/Jellyfin NFO next to the video, so media servers show the post title,
+ * prompt and thumbnail instead of the file name.
+ */
+export class NfoSidecarWriter implements SidecarWriter {
+  readonly format = 'nfo';
+  private nfoType: NfoType;
+
+  constructor(nfoType: NfoType = 'movie') {
+    this.nfoType = nfoType;
+  }
+
+  getPath(videoPath: string): string {
+    return replaceExtension(videoPath, '.nfo');
+  }
+
+  render(sidecar: VideoSidecar): string {
+    const premiered = sidecar.posted_at?.slice(0, 10);
+    const fields: [string, string | number | undefined][] = [
+      ['title', sidecar.title],
+      ['plot', sidecar.prompt || sidecar.description],
+      ['studio', 'Sora'],
+      ['premiered', premiered],
+      ['year', premiered?.slice(0, 4)],
+      ['dateadded', sidecar.downloaded_at.slice(0, 19).replace('T', ' ')],
+      [this.nfoType === 'musicvideo' ? 'artist' : 'credits', sidecar.author]
+    ];
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', `<${this.nfoType}>`];
+    for (const [tag, value] of fields) {
+      if (value !== undefined && value !== '') lines.push(`  <${tag}>${escapeXml(String(value))}</${tag}>`);
+    }
+    lines.push(`  <uniqueid type="sora" default="true">${escapeXml(sidecar.id)}</uniqueid>`);
+    if (sidecar.thumbnail_path) {
+      // Relative to the NFO, which sits next to the video
+      const poster = path.relative(path.dirname(sidecar.video_path), sidecar.thumbnail_path).split(path.sep).join('/');
+      lines.push(`  <thumb aspect="poster">${escapeXml(poster)}</thumb>`);
+    }
+    if (sidecar.width && sidecar.height) {
+      lines.push(
+        '  <fileinfo>',
+        '    <streamdetails>',
+        `      <video><width>${sidecar.width}</width><height>${sidecar.height}</height></video>`,
+        '    </streamdetails>',
+        '  </fileinfo>'
+      );
+    }
+    lines.push(`</${this.nfoType}>`, '');
+    return lines.join('\n');
+  }
+}
+
+/**
+ * yt-dlp style `.info.json` next to the video, for tools that index
+ * yt-dlp downloads.
+ */
+export class InfoJsonSidecarWriter implements SidecarWriter {
+  readonly format = 'infojson';
+
+  getPath(videoPath: string): string {
+    return replaceExtension(videoPath, '.info.json');
+  }
+
+  render(sidecar: VideoSidecar): string {
+    const timestamp = toEpochSeconds(sidecar.posted_at);
+    const profile = sidecar.profile;
+    const stats = sidecar.stats || {};
+
+    const info = {
+      id: sidecar.id,
+      title: sidecar.title,
+      fulltitle: sidecar.title,
+      description: sidecar.prompt || sidecar.description,
+      uploader: sidecar.author,
+      uploader_id: profile?.user_id || sidecar.post?.shared_by,
+      uploader_url: profile?.permalink,
+      timestamp,
+      upload_date: sidecar.posted_at ? sidecar.posted_at.slice(0, 10).replace(/-/g, '') : undefined,
+      webpage_url: sidecar.permalink,
+      original_url: sidecar.permalink,
+      extractor: 'sora',
+      extractor_key: 'Sora',
+      url: sidecar.video_url,
+      ext: path.extname(sidecar.video_path).slice(1) || 'mp4',
+      format_id: sidecar.variant,
+      width: sidecar.width,
+      height: sidecar.height,
+      thumbnail: sidecar.thumbnail_url,
+      thumbnails: sidecar.thumbnail_url ? [{ id: '0', url: sidecar.thumbnail_url }] : [],
+      like_count: stats.like_count,
+      view_count: stats.view_count,
+      comment_count: stats.reply_count,
+      repost_count: stats.remix_count,
+      _type: 'video',
+      _filename: sidecar.video_path,
+      filename: sidecar.video_path,
+      epoch: toEpochSeconds(sidecar.downloaded_at)
+    };
+    return JSON.stringify(info, null, 2);
+  }
+}
+
+/**
+ * The prompt as a single subtitle cue spanning the whole video, so players
+ * can overlay it. With `details`, a first line names the author and the
+ * like, view and remix counts.
+ */
+export class SubtitleSidecarWriter implements SidecarWriter {
+  readonly format: 'srt' | 'vtt';
+  private details: boolean;
+
+  constructor(format: 'srt' | 'vtt', details: boolean = false) {
+    this.format = format;
+    this.details = details;
+  }
+
+  getPath(videoPath: string): string {
+    return replaceExtension(videoPath, `.${this.format}`);
+  }
+
+  render(sidecar: VideoSidecar): string {
+    const separator = this.format === 'srt' ? ',' : '.';
+    const end = sidecar.duration && sidecar.duration > 0 ? sidecar.duration : FALLBACK_CUE_SECONDS;
+    const timing = `${formatCueTime(0, separator)} --> ${formatCueTime(end, separator)}`;
+
+    // An arrow in the text would read as a cue timing line
+    const lines = this.getLines(sidecar).map(line => this.format === 'vtt' ? escapeCueText(line) : line.replace(/-->/g, '->'));
+    const cue = [timing, ...lines].join('\n');
+    return this.format === 'srt' ? `1\n${cue}\n\n` : `WEBVTT\n\n${cue}\n\n`;
+  }
+
+  private getLines(sidecar: VideoSidecar): string[] {
+    // A blank line would end the cue early
+    const text = (sidecar.prompt || sidecar.description || sidecar.title).split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (!this.details) return text;
+
+    const stats = sidecar.stats || {};
+    const counts = [
+      stats.like_count !== undefined ? `${stats.like_count} likes` : undefined,
+      stats.view_count !== undefined ? `${stats.view_count} views` : undefined,
+      stats.remix_count !== undefined ? `${stats.remix_count} remixes` : undefined
+    ].filter(Boolean);
+    const header = [sidecar.author ? `@${sidecar.author}` : undefined, ...counts].filter(Boolean).join(' · ');
+    return header ? [header, ...text] : text;
+  }
+}
+
+const factories = new Map<string, SidecarWriterFactory>([
+  ['json', () => new JsonSidecarWriter()],
+  ['nfo', options => new NfoSidecarWriter(options.nfoType)],
+  ['infojson', () => new InfoJsonSidecarWriter()],
+  ['srt', options => new SubtitleSidecarWriter('srt', options.subtitleDetails)],
+  ['vtt', options => new SubtitleSidecarWriter('vtt', options.subtitleDetails)]
+]);
+
+/**
+ * Registry of sidecar formats selectable with `--write-sidecars`. The json
+ * sidecar is always written on top of the selected formats.
+ */
+export class SidecarWriters {
+  static readonly REQUIRED_FORMAT: string = FILE_CONFIG.DEFAULT_SIDECAR_FORMAT;
+
+  static register(format: string, factory: SidecarWriterFactory): void {
+    factories.set(format, factory);
+  }
+
+  static getFormats(): string[] {
+    return [...factories.keys()];
+  }
+
+  /**
+   * Parse a comma-separated format list such as "nfo,infojson". Listing
+   * json as well is allowed but changes nothing.
+   */
+  static parseFormats(value: string): string[] {
+    const formats = [...new Set(value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean))];
+    if (formats.length === 0) {
+      throw createValidationError(`--write-sidecars needs at least one of: ${this.getFormats().join(', ')}`);
+    }
+
+    const unknown = formats.filter(format => !factories.has(format));
+    if (unknown.length > 0) {
+      throw createValidationError(`Unknown sidecar format "${unknown.join('", "')}" (expected: ${this.getFormats().join(', ')})`, { value });
+    }
+    return formats;
+  }
+
+  static parseNfoType(value: string): NfoType {
+    if (!(NFO_TYPES as readonly string[]).includes(value)) {
+      throw createValidationError(`--nfo-type must be one of: ${NFO_TYPES.join(', ')}`, { value });
+    }
+    return value as NfoType;
+  }
+
+  static create(formats: readonly string[] = [], options: SidecarWriterOptions = {}): SidecarWriter[] {
+    return [...new Set([this.REQUIRED_FORMAT, ...formats])].map(format => {
+      const factory = factories.get(format);
+      if (!factory) {
+        throw createValidationError(`Unknown sidecar format "${format}"`, { format });
+      }
+      return factory(options);
+    });
+  }
+}
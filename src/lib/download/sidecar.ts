@@ -0,0 +1,116 @@
+import { VideoItem, VideoSidecar, DownloadIntegrity, SoraPost, PostStats } from '../../types';
+import { FILE_CONFIG } from '../../config/constants';
+import { FileUtils } from '../../utils/common/file-utils';
+import { createValidationError } from '../../utils/common/error-handler';
+
+const STAT_FIELDS: (keyof PostStats)[] = [
+  'like_count',
+  'view_count',
+  'unique_view_count',
+  'remix_count',
+  'reply_count',
+  'recursive_reply_count',
+  'dislike_count'
+];
+
+function toIsoTime(seconds: number | undefined): string | undefined {
+  return typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+function getStats(post: SoraPost): PostStats {
+  const stats: PostStats = {};
+  for (const field of STAT_FIELDS) {
+    if (typeof post[field] === 'number') stats[field] = post[field];
+  }
+  return stats;
+}
+
+// The attachments are stored once, as `attachment`
+function withoutAttachments(post: SoraPost): Omit<SoraPost, 'attachments'> {
+  const copy: Partial<SoraPost> = { ...post };
+  delete copy.attachments;
+  return copy as Omit<SoraPost, 'attachments'>;
+}
+
+/**
+ * Builds and reads the metadata sidecar written next to each download.
+ * Version 2 adds the full post, attachment and author profile to the
+ * version 1 fields, which keep their names and meaning.
+ */
+export class Sidecar {
+  static readonly SCHEMA_VERSION: number = FILE_CONFIG.SIDECAR_SCHEMA_VERSION;
+
+  static build(
+    video: VideoItem,
+    videoPath: string,
+    thumbnailPath?: string,
+    integrity?: DownloadIntegrity,
+    duration?: number,
+    downloadedAt: Date = new Date()
+  ): VideoSidecar {
+    const post = video.post;
+    return {
+      schema_version: this.SCHEMA_VERSION,
+      id: video.id,
+      title: video.title,
+      description: video.description,
+      prompt: video.prompt,
+      video_url: video.videoUrl,
+      thumbnail_url: video.thumbnailUrl,
+      source: video.source,
+      generation_id: video.generationId,
+      variant: video.variant || 'source',
+      video_path: videoPath,
+      thumbnail_path: thumbnailPath,
+      downloaded_at: downloadedAt.toISOString(),
+      integrity,
+      permalink: video.permalink,
+      posted_at: toIsoTime(post?.posted_at) ?? video.createdAt,
+      updated_at: toIsoTime(post?.updated_at) ?? video.updatedAt,
+      width: video.width,
+      height: video.height,
+      duration: duration ?? video.duration,
+      author: video.author,
+      stats: post ? getStats(post) : undefined,
+      post: post ? withoutAttachments(post) : undefined,
+      attachment: video.attachment,
+      profile: video.profile
+    };
+  }
+
+  /**
+   * Check parsed sidecar JSON of any schema version. Version 1 files (no
+   * `schema_version`) come back with `schema_version: 1` and only their fields.
+   */
+  static parse(raw: unknown, filePath: string): VideoSidecar {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw createValidationError(`Metadata sidecar must contain a JSON object: ${filePath}`, { filePath });
+    }
+
+    const sidecar = raw as Partial<VideoSidecar>;
+    if (typeof sidecar.id !== 'string' || !sidecar.id) {
+      throw createValidationError(`Metadata sidecar has no post id: ${filePath}`, { filePath });
+    }
+
+    const version = sidecar.schema_version ?? 1;
+    if (!Number.isInteger(version) || version < 1) {
+      throw createValidationError(`Metadata sidecar has an invalid schema_version: ${filePath}`, { filePath, version });
+    }
+
+    return {
+      ...sidecar,
+      schema_version: version,
+      variant: sidecar.variant === 'watermarked' ? 'watermarked' : 'source'
+    } as VideoSidecar;
+  }
+
+  static read(filePath: string): VideoSidecar {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(FileUtils.readFile(filePath));
+    } catch (error) {
+      throw createValidationError(`Unreadable metadata sidecar: ${filePath}`, { filePath, error: (error as Error).message });
+    }
+    return this.parse(raw, filePath);
+  }
+}
@@ -0,0 +1,114 @@
+import * as path from 'path';
+import { FileIntegrity, MediaCheckResult, VerifyResult, VideoSidecar } from '../../types';
+import { FILE_CONFIG } from '../../config/constants';
+import { FileUtils } from '../../utils/common/file-utils';
+import { createFileSystemError } from '../../utils/common/error-handler';
+import { Mp4Utils } from '../../utils/media/mp4';
+import { WebpUtils } from '../../utils/media/webp';
+import { BaseService } from '../services/base-service';
+import { Sidecar } from './sidecar';
+
+/**
+ * Re-checks a download directory against its metadata sidecars: every
+ * recorded file must exist, match its recorded size and SHA-256 and still
+ * pass the container check. Sidecars written before hashes were recorded
+ * are checked for presence and container validity only.
+ */
+export class DownloadVerifier extends BaseService {
+  private outputDir: string;
+
+  constructor(outputDir: string) {
+    super('DownloadVerifier');
+    this.outputDir = outputDir;
+  }
+
+  async verify(onResult?: (result: VerifyResult) => void): Promise<VerifyResult[]> {
+    const metadataDir = FileUtils.joinPaths(this.outputDir, FILE_CONFIG.DIRECTORIES.METADATA);
+    if (!FileUtils.fileExists(metadataDir)) {
+      throw createFileSystemError(`Metadata directory not found: ${metadataDir}`, { outputDir: this.outputDir });
+    }
+
+    this.logOperationStart('verify', { outputDir: this.outputDir });
+    const results: VerifyResult[] = [];
+    const report = (result: VerifyResult) => {
+      results.push(result);
+      onResult?.(result);
+    };
+
+    const sidecars = FileUtils.listFilesRecursive(metadataDir, /_metadata\.json$/);
+    for (const sidecar of sidecars) {
+      let metadata: VideoSidecar;
+      try {
+        metadata = Sidecar.read(FileUtils.joinPaths(metadataDir, sidecar));
+      } catch {
+        report({ videoId: sidecar, kind: 'video', file: sidecar, status: 'corrupted', detail: 'unreadable metadata sidecar' });
+        continue;
+      }
+
+      const videoId = metadata.id;
+      // Sidecars mirror the video's location below videos/
+      const stem = sidecar.slice(0, -FILE_CONFIG.EXTENSIONS.METADATA.length);
+      const videoExtension = path.extname(metadata.video_path || '') || FILE_CONFIG.EXTENSIONS.VIDEO;
+      const integrity = metadata.integrity || {};
+
+      const videoFile = integrity.video?.file || `${FILE_CONFIG.DIRECTORIES.VIDEOS}/${stem}${videoExtension}`;
+      report(await this.verifyFile(videoId, 'video', videoFile, integrity.video));
+
+      const thumbnailFile = integrity.thumbnail?.file || `${FILE_CONFIG.DIRECTORIES.VIDEOS}/${stem}${FILE_CONFIG.EXTENSIONS.THUMBNAIL}`;
+      // Without a record we can't tell a missing thumbnail from one that was never available
+      if (integrity.thumbnail || FileUtils.fileExists(FileUtils.joinPaths(this.outputDir, thumbnailFile))) {
+        report(await this.verifyFile(videoId, 'thumbnail', thumbnailFile, integrity.thumbnail));
+      }
+    }
+
+    this.logOperationEnd('verify', {
+      sidecars: sidecars.length,
+      checked: results.length,
+      problems: results.filter(result => result.status !== 'ok' && result.status !== 'unverified').length
+    });
+    return results;
+  }
+
+  private async verifyFile(
+    videoId: string,
+    kind: 'video' | 'thumbnail',
+    file: string,
+    recorded?: FileIntegrity
+  ): Promise<VerifyResult> {
+    const filePath = FileUtils.joinPaths(this.outputDir, file);
+    const result = (status: VerifyResult['status'], detail?: string): VerifyResult => ({ videoId, kind, file, status, detail });
+
+    if (!FileUtils.fileExists(filePath)) {
+      return result('missing');
+    }
+
+    const bytes = FileUtils.getFileSize(filePath);
+    if (recorded && bytes < recorded.bytes) {
+      return result('truncated', `${bytes} of ${recorded.bytes} bytes`);
+    }
+
+    const check = this.checkContainer(kind, filePath);
+    if (!check.valid) {
+      return result(check.truncated ? 'truncated' : 'corrupted', check.reason);
+    }
+
+    if (!recorded) {
+      return result('unverified', 'no checksum recorded');
+    }
+    if (bytes !== recorded.bytes) {
+      return result('corrupted', `size changed from ${recorded.bytes} to ${bytes} bytes`);
+    }
+    if (await FileUtils.hashFile(filePath) !== recorded.sha256) {
+      return result('corrupted', 'SHA-256 mismatch');
+    }
+    return result('ok');
+  }
+
+  private checkContainer(kind: 'video' | 'thumbnail', filePath: string): MediaCheckResult {
+    const extension = FileUtils.getFileExtension(filePath);
+    if (kind === 'video') {
+      return FILE_CONFIG.MP4_EXTENSIONS.includes(extension) ? Mp4Utils.validate(filePath) : { valid: true };
+    }
+    return extension === '.webp' ? WebpUtils.validate(filePath) : { valid: true };
+  }
+}
@@ -0,0 +1,191 @@
+import { SoraFeedItem, SoraAttachment, FeedPaginationOptions } from '../../types';
+import { createValidationError } from '../../utils/common/error-handler';
+
+export type AspectRatio = 'portrait' | 'landscape' | 'square' | { width: number; height: number };
+
+export interface PostFilterCriteria {
+  // Usernames or user ids (post.shared_by), compared case-insensitively
+  authors?: string[];
+  // Bounds on posted_at, both inclusive
+  since?: Date;
+  until?: Date;
+  minLikes?: number;
+  minViews?: number;
+  minRemixes?: number;
+  // Matched against the post text and caption
+  text?: RegExp;
+  // Matched against the generation prompt, falling back to the post text
+  prompt?: RegExp;
+  aspectRatio?: AspectRatio;
+  featured?: boolean;
+  excludeBlocked?: boolean;
+  excludeTombstoned?: boolean;
+}
+
+// Relative difference tolerated when matching a W:H ratio (Sora renders e.g. 352x640 for 9:16)
+const ASPECT_RATIO_TOLERANCE = 0.05;
+const RELATIVE_DATE_PATTERN = /^(\d+)\s*([hdw])$/i;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UNIT_MS: Record<string, number> = { h: 3600_000, d: 86400_000, w: 7 * 86400_000 };
+
+function getSoraAttachment(item: SoraFeedItem): SoraAttachment | undefined {
+  return item.post.attachments?.find(att => att && att.kind === 'sora');
+}
+
+function formatRatio(ratio: AspectRatio): string {
+  return typeof ratio === 'string' ? ratio : `${ratio.width}:${ratio.height}`;
+}
+
+/**
+ * Decides which feed posts are kept, from the post, attachment and author
+ * data. The same filter drives remote downloads, local/HAR downloads and
+ * `--list` previews, so a preview shows exactly what would be downloaded.
+ */
+export class PostFilter {
+  private criteria: PostFilterCriteria;
+  private authors: Set<string>;
+
+  constructor(criteria: PostFilterCriteria = {}) {
+    this.criteria = criteria;
+    this.authors = new Set((criteria.authors || []).map(author => author.toLowerCase().replace(/^@/, '')));
+  }
+
+  /**
+   * ISO date/time, YYYY-MM-DD or a relative age such as 12h, 7d or 2w.
+   * With `endOfDay`, a bare date means the end of that (UTC) day.
+   */
+  static parseDate(value: string, field: string, endOfDay: boolean = false, now: number = Date.now()): Date {
+    const relative = RELATIVE_DATE_PATTERN.exec(value.trim());
+    if (relative) {
+      return new Date(now - parseInt(relative[1]) * UNIT_MS[relative[2].toLowerCase()]);
+    }
+
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+      throw createValidationError(`${field} must be a date such as 2025-10-01, 2025-10-01T12:00:00Z or 7d`, { value });
+    }
+    return new Date(endOfDay && DATE_ONLY_PATTERN.test(value.trim()) ? time + UNIT_MS.d - 1 : time);
+  }
+
+  /**
+   * "/pattern/flags" or a bare pattern, which is matched case-insensitively.
+   */
+  static parsePattern(value: string, field: string): RegExp {
+    const literal = /^\/(.+)\/([a-z]*)$/.exec(value);
+    try {
+      return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value, 'i');
+    } catch (error) {
+      throw createValidationError(`${field} is not a valid regular expression: ${(error as Error).message}`, { value });
+    }
+  }
+
+  /**
+   * portrait, landscape, square, or W:H such as 9:16.
+   */
+  static parseAspectRatio(value: string): AspectRatio {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'portrait' || normalized === 'landscape' || normalized === 'square') {
+      return normalized;
+    }
+
+    const match = /^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/.exec(normalized);
+    const width = match ? parseFloat(match[1]) : NaN;
+    const height = match ? parseFloat(match[2]) : NaN;
+    if (!(width > 0) || !(height > 0)) {
+      throw createValidationError('--aspect must be portrait, landscape, square or a ratio such as 9:16', { value });
+    }
+    return { width, height };
+  }
+
+  getCriteria(): PostFilterCriteria {
+    return { ...this.criteria };
+  }
+
+  isEmpty(): boolean {
+    return Object.values(this.criteria).every(value => value === undefined || (Array.isArray(value) && value.length === 0));
+  }
+
+  /**
+   * Why `item` is filtered out, or undefined if it matches.
+   */
+  reject(item: SoraFeedItem): string | undefined {
+    const { post, profile } = item;
+    const c = this.criteria;
+    if (!post) return 'no post data';
+
+    if (this.authors.size > 0) {
+      const candidates = [profile?.username, post.shared_by].filter((name): name is string => !!name);
+      if (!candidates.some(name => this.authors.has(name.toLowerCase()))) return 'author';
+    }
+
+    const postedAt = typeof post.posted_at === 'number' ? post.posted_at * 1000 : NaN;
+    if (c.since && !(postedAt >= c.since.getTime())) return 'before --since';
+    if (c.until && !(postedAt <= c.until.getTime())) return 'after --until';
+
+    if (c.minLikes !== undefined && !((post.like_count ?? 0) >= c.minLikes)) return 'likes';
+    if (c.minViews !== undefined && !((post.view_count ?? 0) >= c.minViews)) return 'views';
+    if (c.minRemixes !== undefined && !((post.remix_count ?? 0) >= c.minRemixes)) return 'remixes';
+
+    if (c.text && !c.text.test([post.text, post.caption].filter(Boolean).join('\n'))) return 'text';
+
+    const attachment = getSoraAttachment(item);
+    if (c.prompt && !c.prompt.test(attachment?.prompt || post.text || '')) return 'prompt';
+    if (c.aspectRatio && !(attachment && this.matchesAspectRatio(attachment, c.aspectRatio))) return 'aspect ratio';
+
+    if (c.featured !== undefined && !!post.is_featured !== c.featured) return 'featured';
+    if (c.excludeBlocked && (!attachment || attachment.output_blocked)) return 'output blocked';
+    if (c.excludeTombstoned && post.tombstoned_at) return 'tombstoned';
+
+    return undefined;
+  }
+
+  matches(item: SoraFeedItem): boolean {
+    return this.reject(item) === undefined;
+  }
+
+  /**
+   * One line per active criterion, for the download header.
+   */
+  describe(): string[] {
+    const c = this.criteria;
+    const lines: string[] = [];
+    if (c.authors?.length) lines.push(`author: ${c.authors.join(', ')}`);
+    if (c.since) lines.push(`posted since ${c.since.toISOString()}`);
+    if (c.until) lines.push(`posted until ${c.until.toISOString()}`);
+    if (c.minLikes !== undefined) lines.push(`likes ≥ ${c.minLikes}`);
+    if (c.minViews !== undefined) lines.push(`views ≥ ${c.minViews}`);
+    if (c.minRemixes !== undefined) lines.push(`remixes ≥ ${c.minRemixes}`);
+    if (c.text) lines.push(`text ~ ${c.text}`);
+    if (c.prompt) lines.push(`prompt ~ ${c.prompt}`);
+    if (c.aspectRatio) lines.push(`aspect ratio ${formatRatio(c.aspectRatio)}`);
+    if (c.featured !== undefined) lines.push(c.featured ? 'featured only' : 'not featured');
+    if (c.excludeBlocked) lines.push('excluding blocked output');
+    if (c.excludeTombstoned) lines.push('excluding tombstoned posts');
+    return lines;
+  }
+
+  /**
+   * Pagination options that apply this filter to remote feed pages; the
+   * date bounds also let pagination stop early.
+   */
+  toPaginationOptions(): Pick<FeedPaginationOptions, 'since' | 'until' | 'filter'> {
+    return {
+      since: this.criteria.since,
+      until: this.criteria.until,
+      filter: item => this.matches(item)
+    };
+  }
+
+  private matchesAspectRatio(attachment: SoraAttachment, ratio: AspectRatio): boolean {
+    const { width, height } = attachment;
+    if (!(width > 0) || !(height > 0)) return false;
+
+    if (ratio === 'portrait') return height > width;
+    if (ratio === 'landscape') return width > height;
+    if (ratio === 'square' || ratio.width === ratio.height) {
+      return Math.abs(width / height - 1) <= ASPECT_RATIO_TOLERANCE;
+    }
+    const expected = ratio.width / ratio.height;
+    return Math.abs(width / height - expected) / expected <= ASPECT_RATIO_TOLERANCE;
+  }
+}
@@ -0,0 +1,156 @@
+import * as zlib from 'zlib';
+import { SoraFeedItem } from '../../types';
+import { log } from '../../logger';
+import { FileUtils } from '../../utils/common/file-utils';
+import { createValidationError } from '../../utils/common/error-handler';
+import { FeedItemStreamParser } from './stream-parser';
+
+export interface HarExtractionStats {
+  entries: number;
+  feedResponses: number;
+  postResponses: number;
+  undecodable: number;
+  posts: number;
+  duplicates: number;
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  request?: { url?: string };
+  response?: {
+    status?: number;
+    headers?: HarHeader[];
+    content?: { text?: string; encoding?: string; mimeType?: string };
+  };
+}
+
+// Only checked as far as log.entries; the entries are read defensively
+interface HarLog {
+  log?: { entries?: HarEntry[] };
+}
+
+// e.g. /backend/public/nf2/feed, /backend/project_y/feed?cursor=...
+const FEED_URL_PATTERN = /\/feed(?:[/?]|$)/;
+// e.g. /backend/project_y/post/s_68..., /nf2/posts/s_68...
+const POST_URL_PATTERN = /\/posts?\/[^/?]+/;
+
+function getHeader(headers: HarHeader[] | undefined, name: string): string | undefined {
+  return headers?.find(header => header.name.toLowerCase() === name)?.value;
+}
+
+/**
+ * Turn a HAR response body into text. DevTools usually stores bodies already
+ * decoded, but other exporters keep the raw (base64, still compressed)
+ * bytes, so decompression is attempted whenever the body isn't plain JSON.
+ */
+function decodeBody(entry: HarEntry): string | undefined {
+  const content = entry.response?.content;
+  if (!content?.text) return undefined;
+
+  const bytes = content.encoding === 'base64' ? Buffer.from(content.text, 'base64') : Buffer.from(content.text, 'utf8');
+  const text = bytes.toString('utf8').trimStart();
+  if (text.startsWith('{') || text.startsWith('[')) return text;
+
+  const contentEncoding = (getHeader(entry.response?.headers, 'content-encoding') || '').toLowerCase();
+  try {
+    if (contentEncoding.includes('br')) return zlib.brotliDecompressSync(bytes).toString('utf8');
+    if (contentEncoding.includes('deflate')) return zlib.inflateSync(bytes).toString('utf8');
+    // gzip is recognizable by its magic bytes even without a header
+    if (contentEncoding.includes('gzip') || (bytes[0] === 0x1f && bytes[1] === 0x8b)) return zlib.gunzipSync(bytes).toString('utf8');
+  } catch (error) {
+    log.debug('Failed to decompress HAR response body', { url: entry.request?.url, contentEncoding, error: (error as Error).message });
+  }
+  return undefined;
+}
+
+// Throws for bodies without a complete items array or whose items all fail to parse
+function parseFeedBody(body: string, url: string): SoraFeedItem[] {
+  const parser = new FeedItemStreamParser();
+  const items = parser.write(body).filter(item => item && item.post);
+  parser.end(url);
+  if (!parser.isDone()) {
+    throw new SyntaxError('Feed response ends before its items array is closed');
+  }
+  // An empty items array is a normal last page; items that all failed to parse are not
+  if (items.length === 0 && parser.getStats().skipped > 0) {
+    throw new SyntaxError('No item in the feed response could be parsed');
+  }
+  return items;
+}
+
+function parsePostBody(body: string): SoraFeedItem[] {
+  const data = JSON.parse(body);
+  // Post detail responses carry the post (and usually its author) at the top level
+  if (data?.post?.id) {
+    return [{ post: data.post, profile: data.profile }];
+  }
+  return [];
+}
+
+/**
+ * Collect the Sora posts contained in every feed and post response of a
+ * browser HAR capture. Posts seen more than once keep their most recently
+ * updated copy; the result is ordered newest first like the live feed.
+ */
+export function extractFeedItemsFromHar(harPath: string): { items: SoraFeedItem[]; stats: HarExtractionStats } {
+  let har: HarLog | null;
+  try {
+    har = JSON.parse(FileUtils.readFile(harPath));
+  } catch (error) {
+    throw createValidationError(`Failed to parse HAR file: ${harPath}`, { harPath, error: (error as Error).message });
+  }
+
+  const entries = har?.log?.entries;
+  if (!Array.isArray(entries)) {
+    throw createValidationError(`Not a HAR file (missing log.entries): ${harPath}`, { harPath });
+  }
+
+  const stats: HarExtractionStats = { entries: entries.length, feedResponses: 0, postResponses: 0, undecodable: 0, posts: 0, duplicates: 0 };
+  const postsById = new Map<string, SoraFeedItem>();
+
+  for (const entry of entries) {
+    const url = entry.request?.url || '';
+    const status = entry.response?.status ?? 0;
+    const isFeed = FEED_URL_PATTERN.test(url);
+    const isPost = !isFeed && POST_URL_PATTERN.test(url);
+    if ((!isFeed && !isPost) || status < 200 || status >= 300) continue;
+
+    const body = decodeBody(entry);
+    if (!body) {
+      stats.undecodable++;
+      log.warn('HAR response body missing or undecodable', { url });
+      continue;
+    }
+
+    let items: SoraFeedItem[];
+    try {
+      items = isFeed ? parseFeedBody(body, url) : parsePostBody(body);
+    } catch (error) {
+      stats.undecodable++;
+      log.warn('HAR response body could not be decoded', { url, error: (error as Error).message });
+      continue;
+    }
+
+    if (isFeed) stats.feedResponses++;
+    else stats.postResponses++;
+
+    for (const item of items) {
+      const existing = postsById.get(item.post.id);
+      if (existing) {
+        stats.duplicates++;
+        if ((item.post.updated_at || 0) < (existing.post.updated_at || 0)) continue;
+      }
+      postsById.set(item.post.id, { ...item, profile: item.profile || existing?.profile });
+    }
+  }
+
+  const items = [...postsById.values()].sort((a, b) => (b.post.posted_at || 0) - (a.post.posted_at || 0));
+  stats.posts = items.length;
+
+  log.debug('Extracted feed items from HAR', { harPath, ...stats });
+  return { items, stats };
+}
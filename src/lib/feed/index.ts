@@ -1,2 +1,7 @@
 // Feed processing exports
+export * from './normalize';
 export * from './processor';
+export * from './stream-parser';
+export * from './har';
+export * from './filter';
+export * from './sort';
@@ -0,0 +1,71 @@
+import { VideoItem, SoraFeedItem, SoraAttachment, VideoVariant, VariantSelection } from '../../types';
+import { API_CONFIG } from '../../config/constants';
+
+export const VIDEO_VARIANTS: readonly VariantSelection[] = ['source', 'watermarked', 'both'];
+
+/**
+ * URL of one encoding of an attachment. `downloadable_url` is the clean
+ * source file; `source_wm` carries the Sora watermark.
+ */
+export function getVariantUrl(attachment: SoraAttachment, variant: VideoVariant): string | undefined {
+  if (variant === 'watermarked') {
+    return attachment.encodings?.source_wm?.path || undefined;
+  }
+  return attachment.downloadable_url || attachment.encodings?.source?.path || attachment.url || undefined;
+}
+
+/**
+ * Expand a normalized video into one item per selected encoding. Videos
+ * without attachment data (manual URLs) are always treated as the source.
+ */
+export function selectVariants(video: VideoItem, selection: VariantSelection = 'source'): VideoItem[] {
+  if (!video.attachment) {
+    return selection === 'watermarked' ? [] : [{ ...video, variant: 'source' }];
+  }
+
+  const variants: VideoVariant[] = selection === 'both' ? ['source', 'watermarked'] : [selection];
+  const attachment = video.attachment;
+  return variants.flatMap(variant => {
+    const videoUrl = getVariantUrl(attachment, variant);
+    return videoUrl ? [{ ...video, videoUrl, variant }] : [];
+  });
+}
+
+/**
+ * Map a raw Sora feed item onto the VideoItem shape shared by every download
+ * path. Returns undefined for posts without a downloadable Sora attachment.
+ */
+export function normalizeSoraFeedItem(item: SoraFeedItem, fallbackSource?: string): VideoItem | undefined {
+  const post = item?.post;
+  if (!post || !Array.isArray(post.attachments)) return undefined;
+
+  const attachment: SoraAttachment | undefined = post.attachments.find(att => att && att.kind === 'sora');
+  if (!attachment) return undefined;
+
+  const videoUrl = getVariantUrl(attachment, 'source');
+  if (!videoUrl) return undefined;
+
+  const thumbnailUrl = attachment.encodings?.thumbnail?.path || undefined;
+  const title = attachment.title || (post.text ? post.text.slice(0, 80) : `Post ${post.id}`);
+
+  return {
+    id: post.id,
+    title,
+    description: post.text,
+    videoUrl,
+    thumbnailUrl,
+    prompt: attachment.prompt || post.text || undefined,
+    source: post.source || attachment.source || fallbackSource,
+    generationId: attachment.generation_id || undefined,
+    createdAt: post.posted_at ? new Date(post.posted_at * 1000).toISOString() : undefined,
+    updatedAt: post.updated_at ? new Date(post.updated_at * 1000).toISOString() : undefined,
+    post,
+    attachment,
+    profile: item.profile,
+    variant: 'source',
+    permalink: post.permalink || `${API_CONFIG.POST_URL}${post.id}`,
+    width: attachment.width || undefined,
+    height: attachment.height || undefined,
+    author: item.profile?.username || post.shared_by || undefined
+  };
+}
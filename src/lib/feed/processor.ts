@@ -1,117 +1,94 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import axios from 'axios';
-import { SoraFeedResponse, SoraPost, VideoMetadata, VideoItem } from '../../types';
+import { SoraFeedItem, SoraPost, VideoMetadata, DownloadOptions, NameCollision, FeedInputFormat } from '../../types';
+import { API_CONFIG } from '../../config/constants';
 import { VideoDownloader } from '../download';
+import { DownloadQueue } from '../services/download-queue';
+import { normalizeSoraFeedItem, getVariantUrl } from './normalize';
+import { streamFeedItems } from './stream-parser';
+import { extractFeedItemsFromHar } from './har';
+import { PostFilter } from './filter';
+import { PostSortOptions, sortFeedItems } from './sort';
 
 export class LocalFeedProcessor {
-  private feedData: SoraFeedResponse;
+  private feedJsonPath: string;
+  private format: FeedInputFormat;
   private outputDir: string;
   private downloader: VideoDownloader;
-
-  constructor(feedJsonPath: string, outputDir: string = './downloads') {
+  private maxPerHost?: number;
+  private filter?: PostFilter;
+  private sort?: PostSortOptions;
+  private filteredOut = 0;
+
+  constructor(
+    feedJsonPath: string,
+    outputDir: string = './downloads',
+    downloadOptions: DownloadOptions = {},
+    format?: FeedInputFormat,
+    filter?: PostFilter,
+    sort?: PostSortOptions
+  ) {
     this.outputDir = outputDir;
-    this.downloader = new VideoDownloader({ outputDir });
+    this.filter = filter;
+    this.sort = sort;
+    this.maxPerHost = downloadOptions.maxPerHost;
+    this.downloader = new VideoDownloader({ ...downloadOptions, outputDir });
 
-    // Load and parse the feed JSON
     if (!fs.existsSync(feedJsonPath)) {
       throw new Error(`Feed file not found: ${feedJsonPath}`);
     }
-
-    const feedContent = fs.readFileSync(feedJsonPath, 'utf8');
-    this.feedData = this.parsePossiblyDirtyJson(feedContent, feedJsonPath);
+    this.feedJsonPath = feedJsonPath;
+    this.format = format || (path.extname(feedJsonPath).toLowerCase() === '.har' ? 'har' : 'json');
   }
 
-  private parsePossiblyDirtyJson(content: string, filePath: string): SoraFeedResponse {
-    try {
-      return JSON.parse(content);
-    } catch (firstError) {
-      // Attempt to sanitize common issues in large scraped JSON files:
-      // 1) Control characters inside string literals must be escaped
-      // 2) Other control chars and non-breaking spaces outside strings can be normalized
-      const sanitized = this.escapeControlCharsInsideStrings(
-        content
-          .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ' ')
-          .replace(/\u00A0/g, ' ')
-      );
+  /**
+   * Items are parsed lazily from disk, so downloads can start long before a
+   * large feed file has been read to the end.
+   */
+  private iterateItems(): AsyncGenerator<SoraFeedItem> {
+    const items = this.format === 'har'
+      ? this.iterateHarItems()
+      : streamFeedItems(this.feedJsonPath, stats => {
+        if (stats.repaired > 0 || stats.skipped > 0) {
+          console.log(`Feed parsing: ${stats.items} items, ${stats.repaired} repaired, ${stats.skipped} skipped`);
+        }
+      });
+    const selected = this.filter ? this.filterItems(items, this.filter) : items;
+    return this.sort ? this.sortItems(selected, this.sort) : selected;
+  }
 
-      try {
-        return JSON.parse(sanitized);
-      } catch (secondError) {
-        const hint = `Failed to parse JSON file: ${filePath}. ` +
-          `Ensure it is valid JSON. Consider re-exporting the feed or ` +
-          `pre-cleaning it (e.g. remove control characters).`;
-        // Re-throw with additional context while preserving original error message
-        const err = new SyntaxError(`${hint} Original error: ${(secondError as Error).message}`);
-        throw err;
-      }
+  // Ranking needs every post, so a sorted feed is read fully before the first download starts
+  private async *sortItems(items: AsyncIterable<SoraFeedItem>, sort: PostSortOptions): AsyncGenerator<SoraFeedItem> {
+    const all: SoraFeedItem[] = [];
+    for await (const item of items) {
+      all.push(item);
     }
+    yield* sortFeedItems(all, sort, item => item);
   }
 
-  // Escapes control characters found within JSON string literals to their \n/\r/\t or \u00XX forms
-  private escapeControlCharsInsideStrings(input: string): string {
-    let result = '';
-    let inString = false;
-    let escape = false;
-
-    for (let i = 0; i < input.length; i++) {
-      const ch = input[i];
-
-      if (!inString) {
-        if (ch === '"') {
-          inString = true;
-        }
-        result += ch;
-        continue;
-      }
-
-      // inString === true
-      if (escape) {
-        // Previous char was a backslash, keep as-is and clear escape state
-        result += ch;
-        escape = false;
-        // If this character closes the string, it's already escaped so fine
-        continue;
-      }
-
-      if (ch === '\\') {
-        escape = true;
-        result += ch;
-        continue;
-      }
-
-      if (ch === '"') {
-        inString = false;
-        result += ch;
-        continue;
-      }
-
-      const code = ch.charCodeAt(0);
-      if (code < 0x20) {
-        // Control chars must be escaped in JSON strings
-        if (ch === '\n') {
-          result += '\\n';
-        } else if (ch === '\r') {
-          result += '\\r';
-        } else if (ch === '\t') {
-          result += '\\t';
-        } else {
-          result += '\\u' + code.toString(16).padStart(4, '0');
-        }
+  private async *filterItems(items: AsyncIterable<SoraFeedItem>, filter: PostFilter): AsyncGenerator<SoraFeedItem> {
+    this.filteredOut = 0;
+    for await (const item of items) {
+      if (item.post && filter.matches(item)) {
+        yield item;
       } else {
-        result += ch;
+        this.filteredOut++;
       }
     }
-
-    return result;
   }
 
-
-  private sanitizeFilename(filename: string): string {
-    return filename
-      .replace(/[<>:"/\\|?*]/g, '_')
-      .replace(/\s+/g, '_')
-      .substring(0, 200); // Limit length
+  /**
+   * HAR captures hold many (overlapping) responses, so their posts are merged
+   * and de-duplicated up front rather than streamed.
+   */
+  private async *iterateHarItems(): AsyncGenerator<SoraFeedItem> {
+    const { items, stats } = extractFeedItemsFromHar(this.feedJsonPath);
+    console.log(`HAR capture: ${stats.feedResponses} feed and ${stats.postResponses} post responses, ` +
+      `${stats.posts} unique posts (${stats.duplicates} duplicates merged)`);
+    if (stats.undecodable > 0) {
+      console.warn(`⚠️  ${stats.undecodable} matching responses had no usable body`);
+    }
+    yield* items;
   }
 
   private extractMetadata(post: SoraPost): VideoMetadata {
@@ -121,150 +98,102 @@ export class LocalFeedProcessor {
       throw new Error(`No Sora attachment found for post ${post.id}`);
     }
 
+    const variant = this.downloader.getVariant();
+    const watermarkedUrl = getVariantUrl(attachment, 'watermarked');
+
     return {
       id: post.id,
       shared_by: post.shared_by,
       posted_at: post.posted_at,
       updated_at: post.updated_at,
       text: post.text,
-      permalink: `https://sora.chatgpt.com/post/${post.id}`,
-      video_url: attachment.downloadable_url,
+      permalink: post.permalink || `${API_CONFIG.POST_URL}${post.id}`,
+      video_url: (variant === 'watermarked' ? watermarkedUrl : getVariantUrl(attachment, 'source')) || '',
       thumbnail_url: attachment.encodings.thumbnail.path,
       width: attachment.width,
       height: attachment.height,
-      generation_id: attachment.generation_id
+      generation_id: attachment.generation_id,
+      variant,
+      ...(variant === 'both' && watermarkedUrl && { watermarked_video_url: watermarkedUrl })
     };
   }
 
-  private async downloadVideo(metadata: VideoMetadata): Promise<string> {
-    const filename = `${metadata.id}_${metadata.generation_id}.mp4`;
-    const videoPath = path.join(this.outputDir, 'videos', filename);
-
-    if (fs.existsSync(videoPath)) {
-      console.log(`Video already exists: ${filename}`);
-      return videoPath;
+  /**
+   * Resolves to true when at least one variant was downloaded, false when
+   * every variant was already in the download archive.
+   */
+  private async processPost(item: SoraFeedItem): Promise<boolean> {
+    const post = item.post;
+    const video = normalizeSoraFeedItem(item, 'local-feed');
+    if (!video) {
+      throw new Error(`No Sora attachment found for post ${post.id}`);
     }
 
-    console.log(`Downloading video: ${metadata.id}`);
-
-    try {
-      const response = await axios({
-        method: 'GET',
-        url: metadata.video_url,
-        responseType: 'stream',
-        timeout: 30000
-      });
+    const variants = this.downloader.selectVariants(video);
+    if (variants.length === 0) {
+      throw new Error(`No ${this.downloader.getVariant()} encoding found for post ${post.id}`);
+    }
 
-      const writer = fs.createWriteStream(videoPath);
-      response.data.pipe(writer);
+    let downloaded = false;
+    for (const variantVideo of variants) {
+      if (this.downloader.isArchived(variantVideo.id, variantVideo.generationId, variantVideo.variant)) {
+        console.log(`Already in download archive: ${variantVideo.id} (${variantVideo.variant})`);
+        continue;
+      }
 
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => {
-          console.log(`Downloaded: ${filename}`);
-          resolve(videoPath);
-        });
-        writer.on('error', reject);
-      });
-    } catch (error) {
-      console.error(`Failed to download video ${metadata.id}:`, error);
-      throw error;
+      // Same naming, resume and metadata handling as remote feed downloads
+      await this.downloader.downloadVideo(variantVideo);
+      this.downloader.recordArchive(variantVideo.id, variantVideo.generationId, variantVideo.variant);
+      downloaded = true;
     }
+    return downloaded;
   }
 
-  private async downloadThumbnail(metadata: VideoMetadata): Promise<string> {
-    const filename = `${metadata.id}_${metadata.generation_id}_thumbnail.webp`;
-    const thumbnailPath = path.join(this.outputDir, 'videos', filename);
+  private async processItems(items: AsyncIterable<SoraFeedItem>, maxConcurrent: number, limit?: number): Promise<VideoMetadata[]> {
+    const queue = new DownloadQueue<boolean>({
+      concurrency: maxConcurrent,
+      perHostLimit: this.maxPerHost,
+      name: 'LocalFeedProcessor'
+    });
+    const tasks: Promise<void>[] = [];
+    // Indexed by feed position so the summary keeps feed order regardless of completion order
+    const metadata: Array<VideoMetadata | undefined> = [];
+
+    for await (const item of items) {
+      const position = tasks.length;
+      tasks.push(
+        queue.push(() => this.processPost(item), DownloadQueue.hostOf(normalizeSoraFeedItem(item)?.videoUrl))
+          .then(downloaded => {
+            // Archived and failed posts were not downloaded and stay out of the summary
+            if (!downloaded) return;
+            try {
+              metadata[position] = this.extractMetadata(item.post);
+            } catch (error) {
+              console.error(`Error extracting metadata for post ${item.post?.id}:`, error);
+            }
+          })
+          .catch(error => console.error(`Error processing post ${item.post?.id}:`, error))
+      );
 
-    if (fs.existsSync(thumbnailPath)) {
-      return thumbnailPath;
+      if (limit !== undefined && tasks.length >= limit) break;
+      // Keep parsing just ahead of the workers instead of queueing the whole file
+      await queue.onPendingBelow(maxConcurrent * 2);
     }
 
-    try {
-      const response = await axios({
-        method: 'GET',
-        url: metadata.thumbnail_url,
-        responseType: 'stream',
-        timeout: 15000
-      });
-
-      const writer = fs.createWriteStream(thumbnailPath);
-      response.data.pipe(writer);
+    await Promise.all(tasks);
 
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => resolve(thumbnailPath));
-        writer.on('error', reject);
-      });
-    } catch (error) {
-      console.error(`Failed to download thumbnail for ${metadata.id}:`, error);
-      // Don't throw error for thumbnails, just log it
-      return '';
+    const stats = queue.getStats();
+    console.log(`Processed ${stats.total} posts: ${stats.done} succeeded, ${stats.failed} failed`);
+    if (this.filter) {
+      console.log(`Skipped ${this.filteredOut} posts not matching the filter`);
     }
-  }
-
-  private saveMetadata(metadata: VideoMetadata, videoPath: string, thumbnailPath: string): void {
-    // Convert VideoMetadata to VideoItem format for unified metadata
-    const videoItem: VideoItem = {
-      id: metadata.id,
-      title: metadata.text || `Post ${metadata.id}`,
-      description: metadata.text,
-      videoUrl: metadata.video_url,
-      thumbnailUrl: metadata.thumbnail_url,
-      prompt: metadata.text, // Use text as prompt for local feeds
-      source: 'local-feed',
-      generationId: metadata.generation_id,
-      createdAt: new Date(metadata.posted_at * 1000).toISOString(),
-      updatedAt: new Date(metadata.updated_at * 1000).toISOString()
-    };
 
-    // Use unified metadata writing from VideoDownloader
-    const metadataPath = this.downloader.writeMetadata(videoItem, videoPath, thumbnailPath);
-    console.log(`Saved metadata: ${path.basename(metadataPath)}`);
-  }
-
-  private async processPost(post: SoraPost): Promise<void> {
-    try {
-      const metadata = this.extractMetadata(post);
-
-      // Download video and thumbnail concurrently
-      const [videoPath, thumbnailPath] = await Promise.all([
-        this.downloadVideo(metadata),
-        this.downloadThumbnail(metadata)
-      ]);
-
-      // Save metadata with download paths
-      this.saveMetadata(metadata, videoPath, thumbnailPath);
-
-    } catch (error) {
-      console.error(`Error processing post ${post.id}:`, error);
-    }
+    return metadata.filter((entry): entry is VideoMetadata => entry !== undefined);
   }
 
   async processAllPosts(maxConcurrent: number = 3): Promise<VideoMetadata[]> {
-    const posts = this.feedData.items.map(item => item.post);
-    const allMetadata: VideoMetadata[] = [];
-
-    console.log(`Processing ${posts.length} posts with max ${maxConcurrent} concurrent downloads`);
-
-    // Process posts in batches
-    for (let i = 0; i < posts.length; i += maxConcurrent) {
-      const batch = posts.slice(i, i + maxConcurrent);
-      console.log(`Processing batch ${Math.floor(i / maxConcurrent) + 1}/${Math.ceil(posts.length / maxConcurrent)}`);
-
-      const batchPromises = batch.map(post => this.processPost(post));
-      await Promise.all(batchPromises);
-
-      // Extract metadata for this batch
-      const batchMetadata = batch.map(post => {
-        try {
-          return this.extractMetadata(post);
-        } catch (error) {
-          console.error(`Error extracting metadata for post ${post.id}:`, error);
-          return null;
-        }
-      }).filter(Boolean) as VideoMetadata[];
-
-      allMetadata.push(...batchMetadata);
-    }
+    console.log(`Processing posts from ${this.feedJsonPath} with max ${maxConcurrent} concurrent downloads`);
+    const allMetadata = await this.processItems(this.iterateItems(), maxConcurrent);
 
     // Save complete metadata summary
     const summaryPath = path.join(this.outputDir, 'complete_metadata.json');
@@ -275,46 +204,53 @@ export class LocalFeedProcessor {
   }
 
   async processRecentPosts(count: number = 10, maxConcurrent: number = 3): Promise<VideoMetadata[]> {
-    const posts = this.feedData.items.slice(0, count).map(item => item.post);
-    const allMetadata: VideoMetadata[] = [];
+    const selection = this.sort ? `top ${count} posts by ${this.sort.key}${this.sort.reverse ? ' (reversed)' : ''}` : `${count} recent posts`;
+    console.log(`Processing ${selection} with max ${maxConcurrent} concurrent downloads`);
+    return this.processItems(this.iterateItems(), maxConcurrent, count);
+  }
 
-    console.log(`Processing ${posts.length} recent posts with max ${maxConcurrent} concurrent downloads`);
+  rebuildArchive(): number {
+    return this.downloader.rebuildArchive();
+  }
 
-    // Process posts in batches
-    for (let i = 0; i < posts.length; i += maxConcurrent) {
-      const batch = posts.slice(i, i + maxConcurrent);
+  getOutputTemplate(): string {
+    return this.downloader.getOutputTemplate();
+  }
 
-      const batchPromises = batch.map(post => this.processPost(post));
-      await Promise.all(batchPromises);
+  getCollisions(): NameCollision[] {
+    return this.downloader.getCollisions();
+  }
 
-      // Extract metadata for this batch
-      const batchMetadata = batch.map(post => {
-        try {
-          return this.extractMetadata(post);
-        } catch (error) {
-          console.error(`Error extracting metadata for post ${post.id}:`, error);
-          return null;
-        }
-      }).filter(Boolean) as VideoMetadata[];
+  getArchivePath(): string | undefined {
+    return this.downloader.getArchivePath();
+  }
 
-      allMetadata.push(...batchMetadata);
+  async getPostsCount(): Promise<number> {
+    let count = 0;
+    for await (const item of this.iterateItems()) {
+      if (item.post) count++;
     }
-
-    return allMetadata;
+    return count;
   }
 
-  getPostsCount(): number {
-    return this.feedData.items.length;
-  }
+  async listPosts(): Promise<void> {
+    // Collected first so the total can be printed ahead of the listing
+    const items: SoraFeedItem[] = [];
+    for await (const item of this.iterateItems()) {
+      items.push(item);
+    }
+    if (this.filter) {
+      console.log(`Found ${items.length} matching posts in feed (${this.filteredOut} filtered out):`);
+    } else {
+      console.log(`Found ${items.length} posts in feed:`);
+    }
 
-  listPosts(): void {
-    console.log(`Found ${this.feedData.items.length} posts in feed:`);
-    this.feedData.items.forEach((item, index) => {
+    items.forEach((item, index) => {
       const post = item.post;
       console.log(`${index + 1}. ID: ${post.id}`);
-      console.log(`   Shared by: ${post.shared_by}`);
+      console.log(`   Shared by: ${item.profile?.username ? `${item.profile.username} (${post.shared_by})` : post.shared_by}`);
       console.log(`   Posted: ${new Date(post.posted_at * 1000).toISOString()}`);
-      console.log(`   Likes: ${post.like_count}, Views: ${post.view_count}`);
+      console.log(`   Likes: ${post.like_count}, Views: ${post.view_count}, Remixes: ${post.remix_count}`);
       console.log(`   Preview: ${post.preview_image_url}`);
       console.log(`   Text: ${post.text.substring(0, 100)}...`);
       console.log('');
@@ -0,0 +1,46 @@
+import { SoraFeedItem } from '../../types';
+
+export type PostSortKey = 'posted_at' | 'like_count' | 'view_count' | 'remix_count' | 'engagement';
+
+export const POST_SORT_KEYS: readonly PostSortKey[] = ['posted_at', 'like_count', 'view_count', 'remix_count', 'engagement'];
+
+export interface PostSortOptions {
+  key: PostSortKey;
+  // Ascending instead of the default highest/newest first
+  reverse?: boolean;
+}
+
+/**
+ * Value a post is ranked by. Engagement is (likes + replies + remixes) per
+ * view; posts without views have no engagement rate.
+ */
+export function getSortValue(item: SoraFeedItem, key: PostSortKey): number {
+  const post = item.post;
+  if (key === 'engagement') {
+    if (!(post.view_count > 0)) return NaN;
+    return ((post.like_count ?? 0) + (post.reply_count ?? 0) + (post.remix_count ?? 0)) / post.view_count;
+  }
+  const value = post[key];
+  return typeof value === 'number' ? value : NaN;
+}
+
+/**
+ * Sort items by a post field, highest first unless `reverse`. Ties keep their
+ * feed order, and items without a value (or without post data) go last.
+ */
+export function sortFeedItems<T>(items: T[], options: PostSortOptions, getItem: (item: T) => SoraFeedItem | undefined): T[] {
+  const direction = options.reverse ? 1 : -1;
+  const keyed = items.map(item => {
+    const feedItem = getItem(item);
+    return { item, value: feedItem?.post ? getSortValue(feedItem, options.key) : NaN };
+  });
+
+  keyed.sort((a, b) => {
+    const aMissing = isNaN(a.value);
+    const bMissing = isNaN(b.value);
+    if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+    return (a.value - b.value) * direction;
+  });
+
+  return keyed.map(entry => entry.item);
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import { SoraFeedItem } from '../../types';
+import { log } from '../../logger';
+
+export interface FeedParseStats {
+  items: number;
+  repaired: number;
+  skipped: number;
+}
+
+interface ItemCapture {
+  raw: string;
+  repaired: string;
+  needsRepair: boolean;
+}
+
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Incremental scanner for feed files shaped like `{ "items": [ ... ] }` (or a
+ * bare array of items). It tracks string/escape state and nesting depth
+ * across chunks and hands back each item as soon as its closing brace
+ * arrives, so memory stays bounded by the largest single item.
+ *
+ * Scraped feeds often contain raw control characters. The scanner builds a
+ * repaired copy of every item alongside the raw text: control characters
+ * (other than tab/newline/carriage return) and non-breaking spaces become
+ * spaces, and tab/newline/carriage return inside strings are escaped. The
+ * repaired copy is only used when the raw item fails to parse.
+ */
+export class FeedItemStreamParser {
+  private depth = 0;
+  private inString = false;
+  private escape = false;
+  private rootType?: 'object' | 'array';
+  private itemsDepth?: number;
+  private collectingKey = false;
+  private keyBuffer = '';
+  private lastString = '';
+  private pendingKey?: string;
+  private capture?: ItemCapture;
+  private done = false;
+  private stats: FeedParseStats = { items: 0, repaired: 0, skipped: 0 };
+
+  write(chunk: string): SoraFeedItem[] {
+    const items: SoraFeedItem[] = [];
+    if (this.done) return items;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.capture) {
+        this.appendToCapture(this.capture, ch);
+      }
+
+      if (this.inString) {
+        if (this.escape) {
+          this.escape = false;
+        } else if (ch === '\\') {
+          this.escape = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.collectingKey) {
+            this.lastString = this.keyBuffer;
+            this.collectingKey = false;
+          }
+        } else if (this.collectingKey) {
+          this.keyBuffer += ch;
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          // Only root-level strings matter for locating the items array
+          this.collectingKey = !this.capture && this.depth === 1 && this.rootType === 'object';
+          this.keyBuffer = '';
+          break;
+        case ':':
+          if (this.depth === 1 && this.rootType === 'object') this.pendingKey = this.lastString;
+          break;
+        case ',':
+          if (this.depth === 1) this.pendingKey = undefined;
+          break;
+        case '{':
+        case '[':
+          if (this.depth === 0) {
+            this.rootType = ch === '{' ? 'object' : 'array';
+            if (ch === '[') this.itemsDepth = 1;
+          } else if (ch === '[' && this.depth === 1 && this.pendingKey === 'items' && this.itemsDepth === undefined) {
+            this.itemsDepth = 2;
+          }
+          this.depth++;
+          if (ch === '{' && !this.capture && this.itemsDepth !== undefined && this.depth === this.itemsDepth + 1) {
+            this.capture = { raw: '{', repaired: '{', needsRepair: false };
+          }
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.capture && this.depth === this.itemsDepth) {
+            const item = this.finishCapture(this.capture);
+            this.capture = undefined;
+            if (item) items.push(item);
+          } else if (this.itemsDepth !== undefined && this.depth < this.itemsDepth) {
+            // End of the items array; the rest of the file is irrelevant
+            this.done = true;
+            return items;
+          }
+          break;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Call once the input is exhausted; throws when no items array was found.
+   */
+  end(filePath: string): void {
+    if (this.capture) {
+      this.stats.skipped++;
+      log.warn('Feed file ended inside an item, ignoring the partial item', { filePath });
+    }
+    if (this.itemsDepth === undefined) {
+      throw new SyntaxError(`Failed to parse JSON file: ${filePath}. No "items" array found; ` +
+        `ensure it is a Sora feed export.`);
+    }
+  }
+
+  isDone(): boolean {
+    return this.done;
+  }
+
+  getStats(): FeedParseStats {
+    return { ...this.stats };
+  }
+
+  private appendToCapture(capture: ItemCapture, ch: string): void {
+    capture.raw += ch;
+
+    const code = ch.charCodeAt(0);
+    if (code >= 0x20 && code !== 0xA0) {
+      capture.repaired += ch;
+      return;
+    }
+
+    const isLineBreakOrTab = ch === '\n' || ch === '\r' || ch === '\t';
+    if (!isLineBreakOrTab) {
+      capture.needsRepair = true;
+      capture.repaired += ' ';
+    } else if (this.inString && !this.escape) {
+      // Control chars must be escaped in JSON strings
+      capture.needsRepair = true;
+      capture.repaired += ch === '\n' ? '\\n' : ch === '\r' ? '\\r' : '\\t';
+    } else {
+      capture.repaired += ch;
+    }
+  }
+
+  private finishCapture(capture: ItemCapture): SoraFeedItem | undefined {
+    try {
+      const item = JSON.parse(capture.raw) as SoraFeedItem;
+      this.stats.items++;
+      return item;
+    } catch (rawError) {
+      if (capture.needsRepair) {
+        try {
+          const item = JSON.parse(capture.repaired) as SoraFeedItem;
+          this.stats.items++;
+          this.stats.repaired++;
+          return item;
+        } catch {
+          // Fall through and skip the item
+        }
+      }
+
+      this.stats.skipped++;
+      log.warn('Skipping unparseable feed item', {
+        itemIndex: this.stats.items + this.stats.skipped,
+        error: (rawError as Error).message,
+        preview: capture.raw.slice(0, 120)
+      });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Stream the items of a feed file one at a time. Reading stops as soon as
+ * the items array closes or the consumer stops iterating.
+ */
+export async function* streamFeedItems(
+  filePath: string,
+  onStats?: (stats: FeedParseStats) => void
+): AsyncGenerator<SoraFeedItem> {
+  const parser = new FeedItemStreamParser();
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: READ_CHUNK_SIZE });
+
+  try {
+    for await (const chunk of stream) {
+      for (const item of parser.write(chunk as string)) {
+        yield item;
+      }
+      if (parser.isDone()) break;
+    }
+    parser.end(filePath);
+  } finally {
+    stream.destroy();
+    const stats = parser.getStats();
+    log.debug('Feed file streamed', { filePath, ...stats });
+    onStats?.(stats);
+  }
+}
@@ -0,0 +1,49 @@
+import { Transform } from 'stream';
+import { log } from '../../logger';
+
+/**
+ * Token bucket shared by every stream of a downloader, so the byte-rate cap
+ * applies to the sum of all concurrent transfers rather than to each one.
+ */
+export class BandwidthLimiter {
+  private bytesPerSecond: number;
+  private capacity: number;
+  private available: number;
+  private lastRefill: number;
+
+  constructor(bytesPerSecond: number) {
+    this.bytesPerSecond = bytesPerSecond;
+    // Allow up to one second of burst so short pauses don't waste the budget
+    this.capacity = bytesPerSecond;
+    this.available = bytesPerSecond;
+    this.lastRefill = Date.now();
+    log.debug('Bandwidth limiter initialized', { bytesPerSecond });
+  }
+
+  /**
+   * Take `bytes` from the bucket, waiting until the shared budget allows it.
+   */
+  async consume(bytes: number): Promise<void> {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + ((now - this.lastRefill) / 1000) * this.bytesPerSecond);
+    this.lastRefill = now;
+    this.available -= bytes;
+
+    if (this.available < 0) {
+      const waitMs = Math.ceil((-this.available / this.bytesPerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  createThrottle(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        this.consume(chunk.length).then(() => callback(null, chunk), callback);
+      }
+    });
+  }
+
+  getBytesPerSecond(): number {
+    return this.bytesPerSecond;
+  }
+}
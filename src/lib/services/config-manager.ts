@@ -3,8 +3,9 @@ import * as path from 'path';
 import * as os from 'os';
 import { log } from '../../logger';
 import { ValidationUtils } from '../../utils/validation';
-import { createFileSystemError } from '../../utils/common/error-handler';
+import { createFileSystemError, createValidationError } from '../../utils/common/error-handler';
 import { APP_CONFIG } from '../../config/constants';
+import { ConfigMigrator, RawConfig } from './config-migrations';
 
 export interface AppConfig {
   outputDir: string;
@@ -16,16 +17,102 @@ export interface AppConfig {
   logToFile: boolean;
   overwrite: boolean;
   debug: boolean;
+  // Non-secret request headers imported from a curl command
+  requestHeaders: Record<string, string>;
+  profiles: Record<string, ProfileConfig>;
+  // Profile used when neither --profile nor SORA_DL_PROFILE is given
+  activeProfile?: string;
 }
 
+export type ProfileSettings = Partial<Omit<AppConfig, 'requestHeaders' | 'profiles' | 'activeProfile'>>;
+
+/**
+ * A named set of settings, e.g. one per account or archive. Each profile also
+ * gets its own encrypted credentials file.
+ */
+export interface ProfileConfig extends ProfileSettings {
+  // Defaults for command flags, keyed by option name, e.g.
+  // { "outputTemplate": "{username}/{id}.{ext}", "cookiesFile": "work.txt" }
+  options?: Record<string, string | number | boolean>;
+}
+
+export interface ActiveProfile {
+  name: string;
+  config: ProfileConfig;
+  // How the profile was chosen: a flag, the environment or `config profile use`
+  selectedBy: 'flag' | 'env' | 'config';
+}
+
+// A value in config.json that failed validation and was ignored
+export interface ConfigIssue {
+  // Offending key, e.g. "maxConcurrent" or "profiles.work"
+  key: string;
+  message: string;
+}
+
+export interface ConfigLoadReport {
+  issues: ConfigIssue[];
+  // Set when the file was upgraded from an older schema version on load
+  migratedFrom?: number;
+  migrations?: string[];
+  // Copy of the file as it was before being migrated or rewritten
+  backupPath?: string;
+}
+
+export function getDefaultConfig(): AppConfig {
+  return {
+    outputDir: APP_CONFIG.DEFAULT_OUTPUT_DIR,
+    maxConcurrent: APP_CONFIG.DEFAULT_CONCURRENT_DOWNLOADS,
+    maxRetryAttempts: APP_CONFIG.MAX_RETRY_ATTEMPTS,
+    retryBaseDelayMs: APP_CONFIG.RETRY_BASE_DELAY_MS,
+    requestTimeoutMs: APP_CONFIG.REQUEST_TIMEOUT_MS,
+    // Matches the logger's own default, so `config show --effective` tells the truth
+    logLevel: 'error',
+    logToFile: false,
+    overwrite: false,
+    debug: false,
+    requestHeaders: {},
+    profiles: {}
+  };
+}
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug', 'trace'];
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+// Keys config.json may contain besides `version`
+export const CONFIG_KEYS = [...Object.keys(getDefaultConfig()), 'activeProfile'];
+
 export class ConfigManager {
   private static instance: ConfigManager;
   private configPath: string;
+  // Only the values present in the config file; defaults fill in the rest
+  private stored: Partial<AppConfig>;
   private config: AppConfig;
+  // Profile picked for this run with --profile, overriding the stored one
+  private selectedProfile?: string;
+  private loadReport: ConfigLoadReport = { issues: [] };
+  // File contents after migration, invalid values included
+  private migrated?: RawConfig;
 
   private constructor() {
-    this.configPath = path.join(os.homedir(), '.sora-dl', 'config.json');
-    this.config = this.loadConfig();
+    this.configPath = ConfigManager.getDefaultConfigPath();
+    this.stored = this.loadConfig();
+    this.config = { ...getDefaultConfig(), ...this.stored };
+
+    if (this.migrated && this.loadReport.backupPath) {
+      try {
+        // Invalid values stay in the file, ignored until fixed
+        this.writeConfigFile({ version: ConfigMigrator.CURRENT_VERSION, ...this.migrated });
+      } catch (error) {
+        // Still usable in memory; the migration is retried on the next run
+        log.warn('Failed to write migrated config', { error: (error as Error).message });
+      }
+    }
+  }
+
+  static getDefaultConfigPath(): string {
+    return path.join(os.homedir(), '.sora-dl', 'config.json');
   }
 
   static getInstance(): ConfigManager {
@@ -35,79 +122,245 @@ export class ConfigManager {
     return ConfigManager.instance;
   }
 
-  private loadConfig(): AppConfig {
-    const defaultConfig: AppConfig = {
-      outputDir: APP_CONFIG.DEFAULT_OUTPUT_DIR,
-      maxConcurrent: APP_CONFIG.DEFAULT_CONCURRENT_DOWNLOADS,
-      maxRetryAttempts: APP_CONFIG.MAX_RETRY_ATTEMPTS,
-      retryBaseDelayMs: APP_CONFIG.RETRY_BASE_DELAY_MS,
-      requestTimeoutMs: APP_CONFIG.REQUEST_TIMEOUT_MS,
-      logLevel: 'warn',
-      logToFile: false,
-      overwrite: false,
-      debug: false
-    };
+  /**
+   * Validate the known settings present in `values`, e.g. a parsed config
+   * file. `source` is added to error messages to say where a bad value came from.
+   */
+  static validateValues(values: RawConfig, source: string): Partial<AppConfig> {
+    const result: Partial<AppConfig> = {};
+    const field = (key: string) => `${key} (${source})`;
+
+    if (values.outputDir !== undefined) result.outputDir = ValidationUtils.validateString(values.outputDir, field('outputDir'), 1);
+    if (values.maxConcurrent !== undefined) result.maxConcurrent = ValidationUtils.validatePositiveInteger(values.maxConcurrent, field('maxConcurrent'));
+    if (values.maxRetryAttempts !== undefined) result.maxRetryAttempts = ValidationUtils.validatePositiveInteger(values.maxRetryAttempts, field('maxRetryAttempts'));
+    if (values.retryBaseDelayMs !== undefined) result.retryBaseDelayMs = ValidationUtils.validatePositiveInteger(values.retryBaseDelayMs, field('retryBaseDelayMs'));
+    if (values.requestTimeoutMs !== undefined) result.requestTimeoutMs = ValidationUtils.validatePositiveInteger(values.requestTimeoutMs, field('requestTimeoutMs'));
+    if (values.logLevel !== undefined) result.logLevel = ValidationUtils.validateEnum(values.logLevel, field('logLevel'), LOG_LEVELS);
+    if (values.logToFile !== undefined) result.logToFile = ValidationUtils.validateBoolean(values.logToFile, field('logToFile'));
+    if (values.overwrite !== undefined) result.overwrite = ValidationUtils.validateBoolean(values.overwrite, field('overwrite'));
+    if (values.debug !== undefined) result.debug = ValidationUtils.validateBoolean(values.debug, field('debug'));
+    if (values.requestHeaders !== undefined) result.requestHeaders = ConfigManager.validateHeaders(values.requestHeaders);
+    if (values.profiles !== undefined) result.profiles = ConfigManager.validateProfiles(values.profiles, source);
+    if (values.activeProfile !== undefined) result.activeProfile = ConfigManager.validateProfileName(values.activeProfile);
+
+    return result;
+  }
+
+  /**
+   * Validate each field of a config file on its own, so one bad value
+   * doesn't discard the rest. Invalid and unknown fields are left out of
+   * `values` and described in `issues`.
+   */
+  static validateFields(values: RawConfig, source: string): { values: Partial<AppConfig>; issues: ConfigIssue[] } {
+    const result: Partial<AppConfig> = {};
+    const issues: ConfigIssue[] = [];
+
+    for (const [key, value] of Object.entries(values)) {
+      if (key === 'version') continue;
+      if (!CONFIG_KEYS.includes(key)) {
+        issues.push({ key, message: `Unknown setting "${key}" (${source})` });
+        continue;
+      }
+
+      // Profiles are checked one by one so a broken profile doesn't take the others with it
+      if (key === 'profiles' && value && typeof value === 'object' && !Array.isArray(value)) {
+        const profiles: Record<string, ProfileConfig> = {};
+        for (const [name, profile] of Object.entries(value)) {
+          try {
+            ConfigManager.validateProfileName(name);
+            profiles[name] = ConfigManager.validateProfile(profile, `profile "${name}" (${source})`);
+          } catch (error) {
+            issues.push({ key: `profiles.${name}`, message: (error as Error).message });
+          }
+        }
+        result.profiles = profiles;
+        continue;
+      }
+
+      try {
+        Object.assign(result, ConfigManager.validateValues({ [key]: value }, source));
+      } catch (error) {
+        issues.push({ key, message: (error as Error).message });
+      }
+    }
+
+    if (result.activeProfile && !result.profiles?.[result.activeProfile]) {
+      issues.push({ key: 'activeProfile', message: `activeProfile (${source}) names an unknown profile "${result.activeProfile}"` });
+      delete result.activeProfile;
+    }
+
+    return { values: result, issues };
+  }
+
+  /**
+   * Read and check a config file the way it is loaded, without migrating or
+   * changing it. Used by `config validate`.
+   */
+  static inspectFile(filePath: string): { version?: number; values: Partial<AppConfig>; issues: ConfigIssue[] } {
+    let raw: RawConfig;
+    try {
+      raw = ConfigManager.readJsonObject(filePath);
+    } catch (error) {
+      return { values: {}, issues: [{ key: '(file)', message: (error as Error).message }] };
+    }
+
+    const issues: ConfigIssue[] = [];
+    const version = ConfigManager.readSchemaVersion(raw, filePath, issues);
+    const checked = ConfigManager.validateFields(
+      ConfigMigrator.needsMigration(version) ? ConfigMigrator.migrate(raw, version).config : raw,
+      filePath
+    );
+    return { version, values: checked.values, issues: [...issues, ...checked.issues] };
+  }
+
+  static readJsonObject(filePath: string): RawConfig {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw createValidationError(`Failed to parse ${filePath}: ${(error as Error).message}`, { filePath });
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw createValidationError(`${filePath} must contain a JSON object`, { filePath });
+    }
+    return raw as RawConfig;
+  }
+
+  // Files written before the schema was versioned have no version field
+  private static readSchemaVersion(raw: RawConfig, filePath: string, issues: ConfigIssue[]): number {
+    if (raw.version === undefined) return 1;
+    if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+      issues.push({ key: 'version', message: `version (${filePath}) must be a positive integer, assuming ${ConfigMigrator.CURRENT_VERSION}` });
+      return ConfigMigrator.CURRENT_VERSION;
+    }
+    if ((raw.version as number) > ConfigMigrator.CURRENT_VERSION) {
+      issues.push({
+        key: 'version',
+        message: `${filePath} is version ${raw.version}, newer than this release supports (${ConfigMigrator.CURRENT_VERSION}); update ${APP_CONFIG.NAME}`
+      });
+    }
+    return raw.version as number;
+  }
+
+  static validateProfileName(name: unknown): string {
+    const value = ValidationUtils.validateString(name, 'profile name', 1);
+    if (!PROFILE_NAME_PATTERN.test(value)) {
+      throw createValidationError(
+        `Invalid profile name "${value}": use letters, digits, "-" and "_" (up to 64 characters)`,
+        { name: value }
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Validate a single profile. Profiles can hold any layered setting plus
+   * flag defaults, but not request headers or other profiles.
+   */
+  static validateProfile(value: unknown, source: string): ProfileConfig {
+    const { options, requestHeaders, profiles, activeProfile, ...settings } = ValidationUtils.validateObject(value, source);
+    if (requestHeaders !== undefined || profiles !== undefined || activeProfile !== undefined) {
+      throw createValidationError(`${source} can't contain requestHeaders, profiles or activeProfile`);
+    }
+
+    const result: ProfileConfig = ConfigManager.validateValues(settings, source);
+    if (options !== undefined) {
+      const validated = ValidationUtils.validateObject(options, `options (${source})`);
+      for (const [name, optionValue] of Object.entries(validated)) {
+        if (!['string', 'number', 'boolean'].includes(typeof optionValue)) {
+          throw createValidationError(`options.${name} (${source}) must be a string, number or boolean`, { value: optionValue });
+        }
+      }
+      result.options = validated as ProfileConfig['options'];
+    }
+    return result;
+  }
+
+  private static validateProfiles(value: unknown, source: string): Record<string, ProfileConfig> {
+    const profiles = ValidationUtils.validateObject(value, `profiles (${source})`);
+    const result: Record<string, ProfileConfig> = {};
+    for (const [name, profile] of Object.entries(profiles)) {
+      ConfigManager.validateProfileName(name);
+      result[name] = ConfigManager.validateProfile(profile, `profile "${name}" (${source})`);
+    }
+    return result;
+  }
+
+  private static validateHeaders(value: unknown): Record<string, string> {
+    const headers = ValidationUtils.validateObject(value, 'requestHeaders');
+    for (const [name, headerValue] of Object.entries(headers)) {
+      ValidationUtils.validateString(headerValue, `requestHeaders.${name}`);
+    }
+    return headers as Record<string, string>;
+  }
 
+  private loadConfig(): Partial<AppConfig> {
     if (!fs.existsSync(this.configPath)) {
-      this.saveConfig(defaultConfig);
-      return defaultConfig;
+      return {};
     }
 
+    const report = this.loadReport;
+    let raw: RawConfig;
     try {
-      const configData = fs.readFileSync(this.configPath, 'utf8');
-      const userConfig = JSON.parse(configData);
-
-      // Merge with defaults, validating each field
-      return {
-        outputDir: userConfig.outputDir || defaultConfig.outputDir,
-        maxConcurrent: ValidationUtils.validatePositiveInteger(
-          userConfig.maxConcurrent ?? defaultConfig.maxConcurrent,
-          'maxConcurrent'
-        ),
-        maxRetryAttempts: ValidationUtils.validatePositiveInteger(
-          userConfig.maxRetryAttempts ?? defaultConfig.maxRetryAttempts,
-          'maxRetryAttempts'
-        ),
-        retryBaseDelayMs: ValidationUtils.validatePositiveInteger(
-          userConfig.retryBaseDelayMs ?? defaultConfig.retryBaseDelayMs,
-          'retryBaseDelayMs'
-        ),
-        requestTimeoutMs: ValidationUtils.validatePositiveInteger(
-          userConfig.requestTimeoutMs ?? defaultConfig.requestTimeoutMs,
-          'requestTimeoutMs'
-        ),
-        logLevel: ValidationUtils.validateEnum(
-          userConfig.logLevel ?? defaultConfig.logLevel,
-          'logLevel',
-          ['error', 'warn', 'info', 'debug', 'trace']
-        ),
-        logToFile: ValidationUtils.validateBoolean(
-          userConfig.logToFile ?? defaultConfig.logToFile,
-          'logToFile'
-        ),
-        overwrite: ValidationUtils.validateBoolean(
-          userConfig.overwrite ?? defaultConfig.overwrite,
-          'overwrite'
-        ),
-        debug: ValidationUtils.validateBoolean(
-          userConfig.debug ?? defaultConfig.debug,
-          'debug'
-        )
-      };
+      raw = ConfigManager.readJsonObject(this.configPath);
     } catch (error) {
+      report.issues.push({ key: '(file)', message: (error as Error).message });
       log.warn('Failed to load config, using defaults', { error: (error as Error).message });
-      return defaultConfig;
+      return {};
     }
+
+    const version = ConfigManager.readSchemaVersion(raw, this.configPath, report.issues);
+    if (ConfigMigrator.needsMigration(version)) {
+      const migrated = ConfigMigrator.migrate(raw, version);
+      try {
+        report.backupPath = this.backupConfig(`v${version}`);
+      } catch (error) {
+        log.warn('Not rewriting migrated config without a backup', { error: (error as Error).message });
+      }
+      report.migratedFrom = version;
+      report.migrations = migrated.applied;
+      raw = migrated.config;
+      this.migrated = raw;
+    }
+
+    const { values, issues } = ConfigManager.validateFields(raw, this.configPath);
+    report.issues.push(...issues);
+    if (issues.length > 0) {
+      log.warn('Ignoring invalid config values', { issues });
+    }
+    return values;
   }
 
-  private saveConfig(config: AppConfig): void {
+  // Copy config.json aside before it is rewritten, e.g. to config.json.v1.bak
+  private backupConfig(suffix: string): string | undefined {
+    const backupPath = `${this.configPath}.${suffix}.bak`;
+    try {
+      fs.copyFileSync(this.configPath, backupPath);
+      log.logFileOperation('write', backupPath, true);
+      return backupPath;
+    } catch (error) {
+      log.logFileOperation('write', backupPath, false, error as Error);
+      throw createFileSystemError(`Failed to back up config file to ${backupPath}`, { configPath: this.configPath, error });
+    }
+  }
+
+  private saveConfig(): void {
+    // Values dropped as invalid would be lost for good, so keep the original first
+    if (this.loadReport.issues.length > 0 && !this.loadReport.backupPath && fs.existsSync(this.configPath)) {
+      this.loadReport.backupPath = this.backupConfig('invalid');
+    }
+
+    this.writeConfigFile({ version: ConfigMigrator.CURRENT_VERSION, ...this.stored });
+  }
+
+  private writeConfigFile(file: RawConfig): void {
     try {
       const configDir = path.dirname(this.configPath);
       if (!fs.existsSync(configDir)) {
         fs.mkdirSync(configDir, { recursive: true });
       }
 
-      fs.writeFileSync(this.configPath, JSON.stringify(config, null, 2), 'utf8');
+      fs.writeFileSync(this.configPath, JSON.stringify(file, null, 2), 'utf8');
       log.debug('Config saved', { configPath: this.configPath });
     } catch (error) {
       log.error('Failed to save config', { configPath: this.configPath }, error as Error);
@@ -115,41 +368,85 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Problems found and migrations applied when config.json was loaded.
+   */
+  getLoadReport(): ConfigLoadReport {
+    return { ...this.loadReport, issues: [...this.loadReport.issues] };
+  }
+
   get<K extends keyof AppConfig>(key: K): AppConfig[K] {
     return this.config[key];
   }
 
   set<K extends keyof AppConfig>(key: K, value: AppConfig[K]): void {
-    this.config[key] = value;
-    this.saveConfig(this.config);
-    log.debug('Config updated', { key, value });
+    this.update({ [key]: value } as Partial<AppConfig>);
   }
 
   getAll(): AppConfig {
     return { ...this.config };
   }
 
+  /**
+   * Values set in the config file, without defaults filled in.
+   */
+  getStoredValues(): Partial<AppConfig> {
+    return { ...this.stored };
+  }
+
+  /**
+   * Value stored in config.json at a dotted path such as "maxConcurrent",
+   * "requestHeaders.user-agent" or "profiles.work.outputDir".
+   */
+  getStoredValue(keyPath: string): unknown {
+    let value: unknown = this.stored;
+    for (const part of keyPath.split('.')) {
+      if (!value || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+  }
+
+  /**
+   * Remove a value (dotted path as for getStoredValue) from config.json so
+   * the layers below apply again. Returns false if nothing was stored there.
+   */
+  unset(keyPath: string): boolean {
+    const parts = keyPath.split('.');
+    if (!CONFIG_KEYS.includes(parts[0])) {
+      throw createValidationError(`Unknown setting "${parts[0]}" (known: ${CONFIG_KEYS.join(', ')})`, { keyPath });
+    }
+    if (this.getStoredValue(keyPath) === undefined) return false;
+
+    const updated: Partial<AppConfig> = JSON.parse(JSON.stringify(this.stored));
+    // getStoredValue found a value, so every parent on the path is an object
+    let parent = updated as RawConfig;
+    for (const part of parts.slice(0, -1)) {
+      parent = parent[part] as RawConfig;
+    }
+    delete parent[parts[parts.length - 1]];
+    if (updated.activeProfile && !updated.profiles?.[updated.activeProfile]) {
+      delete updated.activeProfile;
+    }
+
+    this.stored = ConfigManager.validateValues(updated, this.configPath);
+    this.config = { ...getDefaultConfig(), ...this.stored };
+    this.saveConfig();
+    log.debug('Config value unset', { keyPath });
+    return true;
+  }
+
   update(updates: Partial<AppConfig>): void {
-    this.config = { ...this.config, ...updates };
-    this.saveConfig(this.config);
+    this.stored = { ...this.stored, ...updates };
+    this.config = { ...getDefaultConfig(), ...this.stored };
+    this.saveConfig();
     log.debug('Config updated with multiple values', { updates });
   }
 
   reset(): void {
-    const defaultConfig: AppConfig = {
-      outputDir: APP_CONFIG.DEFAULT_OUTPUT_DIR,
-      maxConcurrent: APP_CONFIG.DEFAULT_CONCURRENT_DOWNLOADS,
-      maxRetryAttempts: APP_CONFIG.MAX_RETRY_ATTEMPTS,
-      retryBaseDelayMs: APP_CONFIG.RETRY_BASE_DELAY_MS,
-      requestTimeoutMs: APP_CONFIG.REQUEST_TIMEOUT_MS,
-      logLevel: 'warn',
-      logToFile: false,
-      overwrite: false,
-      debug: false
-    };
-
-    this.config = defaultConfig;
-    this.saveConfig(this.config);
+    this.stored = {};
+    this.config = getDefaultConfig();
+    this.saveConfig();
     log.info('Config reset to defaults');
   }
 
@@ -157,6 +454,91 @@ export class ConfigManager {
     return this.configPath;
   }
 
+  getProfiles(): Record<string, ProfileConfig> {
+    return { ...this.config.profiles };
+  }
+
+  getProfile(name: string): ProfileConfig | undefined {
+    return this.config.profiles[name];
+  }
+
+  /**
+   * Create or replace a profile.
+   */
+  saveProfile(name: string, profile: ProfileConfig): void {
+    ConfigManager.validateProfileName(name);
+    const validated = ConfigManager.validateProfile(profile, `profile "${name}"`);
+    this.update({ profiles: { ...this.config.profiles, [name]: validated } });
+  }
+
+  deleteProfile(name: string): boolean {
+    if (!this.config.profiles[name]) return false;
+    const profiles = { ...this.config.profiles };
+    delete profiles[name];
+    this.stored = { ...this.stored, profiles };
+    if (this.stored.activeProfile === name) {
+      delete this.stored.activeProfile;
+    }
+    this.config = { ...getDefaultConfig(), ...this.stored };
+    this.saveConfig();
+    return true;
+  }
+
+  /**
+   * Store the profile used by default, or clear it with `undefined`.
+   */
+  useProfile(name: string | undefined): void {
+    if (name !== undefined) {
+      this.requireProfile(name);
+      this.update({ activeProfile: name });
+      return;
+    }
+    this.stored = { ...this.stored };
+    delete this.stored.activeProfile;
+    this.config = { ...getDefaultConfig(), ...this.stored };
+    this.saveConfig();
+  }
+
+  /**
+   * Choose the profile for this run only (the global --profile flag).
+   */
+  selectProfile(name: string | undefined): void {
+    this.selectedProfile = name;
+  }
+
+  /**
+   * Profile in effect: --profile, then SORA_DL_PROFILE, then the one stored
+   * with `config profile use`. Throws if a profile named by the flag or the
+   * environment doesn't exist.
+   */
+  getActiveProfile(): ActiveProfile | undefined {
+    const fromEnv = process.env[APP_CONFIG.PROFILE_ENV];
+    const [name, selectedBy]: [string | undefined, ActiveProfile['selectedBy']] =
+      this.selectedProfile ? [this.selectedProfile, 'flag'] :
+      fromEnv ? [fromEnv, 'env'] :
+      [this.stored.activeProfile, 'config'];
+
+    if (!name) return undefined;
+    if (selectedBy === 'config' && !this.config.profiles[name]) {
+      // A hand-edited config shouldn't block every command, including `config profile use`
+      log.warn(`Default profile "${name}" doesn't exist, ignoring it`);
+      return undefined;
+    }
+    return { name, config: this.requireProfile(name), selectedBy };
+  }
+
+  private requireProfile(name: string): ProfileConfig {
+    const profile = this.config.profiles[name];
+    if (!profile) {
+      const known = Object.keys(this.config.profiles);
+      throw createValidationError(
+        `Unknown profile "${name}"${known.length > 0 ? ` (available: ${known.join(', ')})` : ''}`,
+        { name }
+      );
+    }
+    return profile;
+  }
+
   // Alias methods for CLI compatibility
   getConfig(): AppConfig {
     return this.getAll();
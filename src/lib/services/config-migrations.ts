@@ -0,0 +1,77 @@
+import { log } from '../../logger';
+import { APP_CONFIG } from '../../config/constants';
+import { createValidationError } from '../../utils/common/error-handler';
+
+export type RawConfig = Record<string, unknown>;
+
+interface ConfigMigration {
+  // Schema version this migration upgrades from, to `from + 1`
+  from: number;
+  description: string;
+  migrate(config: RawConfig): RawConfig;
+}
+
+// Unversioned (v1) releases wrote every one of these on first run, so a file
+// containing all of them was generated rather than edited
+const LEGACY_DEFAULTS: RawConfig = {
+  outputDir: './downloads',
+  maxConcurrent: 3,
+  maxRetryAttempts: 3,
+  retryBaseDelayMs: 500,
+  requestTimeoutMs: 30000,
+  logLevel: 'warn',
+  logToFile: false,
+  overwrite: false,
+  debug: false
+};
+
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 1,
+    description: 'Drop defaults written by older versions so they no longer mask other settings layers',
+    migrate: config => {
+      const generated = Object.keys(LEGACY_DEFAULTS).every(key => key in config);
+      if (!generated) return { ...config };
+
+      const migrated = { ...config };
+      for (const [key, value] of Object.entries(LEGACY_DEFAULTS)) {
+        if (migrated[key] === value) delete migrated[key];
+      }
+      return migrated;
+    }
+  }
+];
+
+/**
+ * Upgrades parsed config.json contents from an older schema version.
+ * Files without a `version` field are version 1.
+ */
+export class ConfigMigrator {
+  static readonly CURRENT_VERSION: number = APP_CONFIG.CONFIG_SCHEMA_VERSION;
+
+  static needsMigration(version: number): boolean {
+    return version < this.CURRENT_VERSION;
+  }
+
+  /**
+   * Apply every migration from `fromVersion` up to the current version.
+   * Returns the migrated config (without a version field) and the steps applied.
+   */
+  static migrate(config: RawConfig, fromVersion: number): { config: RawConfig; applied: string[] } {
+    let migrated: RawConfig = { ...config };
+    delete migrated.version;
+    const applied: string[] = [];
+
+    for (let version = fromVersion; version < this.CURRENT_VERSION; version++) {
+      const migration = MIGRATIONS.find(candidate => candidate.from === version);
+      if (!migration) {
+        throw createValidationError(`No config migration from version ${version}`, { fromVersion });
+      }
+      migrated = migration.migrate(migrated);
+      applied.push(`v${version} → v${version + 1}: ${migration.description}`);
+    }
+
+    log.debug('Config migrated', { fromVersion, toVersion: this.CURRENT_VERSION, applied });
+    return { config: migrated, applied };
+  }
+}
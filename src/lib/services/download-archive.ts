@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../../logger';
+import { FILE_CONFIG } from '../../config/constants';
+import { VideoVariant } from '../../types';
+import { FileUtils } from '../../utils/common/file-utils';
+
+const ARCHIVE_PREFIX = 'sora';
+
+/**
+ * Persistent record of downloaded posts, one `sora <post id> <generation id>`
+ * line per entry (in the spirit of yt-dlp's --download-archive). Unlike the
+ * file-exists check it survives renamed titles and moved output directories.
+ * Watermarked downloads are recorded separately with a trailing `watermarked`.
+ */
+export class DownloadArchive {
+  private archivePath: string;
+  private entries: Set<string> = new Set();
+
+  constructor(archivePath: string) {
+    this.archivePath = archivePath;
+    this.load();
+  }
+
+  static createKey(id: string, generationId?: string, variant: VideoVariant = 'source'): string {
+    const key = generationId ? `${id} ${generationId}` : id;
+    if (variant === 'source') return key;
+    return generationId ? `${key} ${variant}` : `${key} - ${variant}`;
+  }
+
+  private load(): void {
+    if (!FileUtils.fileExists(this.archivePath)) {
+      log.debug('Download archive not found, starting empty', { archivePath: this.archivePath });
+      return;
+    }
+
+    const lines = FileUtils.readFile(this.archivePath).split(/\r?\n/);
+    for (const line of lines) {
+      const [prefix, ...rest] = line.trim().split(/\s+/);
+      if (prefix === ARCHIVE_PREFIX && rest.length > 0) {
+        this.entries.add(rest.join(' '));
+      }
+    }
+
+    log.debug('Download archive loaded', { archivePath: this.archivePath, entries: this.entries.size });
+  }
+
+  has(id: string, generationId?: string, variant?: VideoVariant): boolean {
+    return this.entries.has(DownloadArchive.createKey(id, generationId, variant));
+  }
+
+  add(id: string, generationId?: string, variant?: VideoVariant): void {
+    const key = DownloadArchive.createKey(id, generationId, variant);
+    if (this.entries.has(key)) return;
+
+    FileUtils.ensureDirectoryExists(path.dirname(this.archivePath));
+    fs.appendFileSync(this.archivePath, `${ARCHIVE_PREFIX} ${key}\n`, 'utf8');
+    this.entries.add(key);
+    log.debug('Added to download archive', { archivePath: this.archivePath, key });
+  }
+
+  /**
+   * Replace the archive with the posts recorded in an existing metadata directory.
+   */
+  rebuildFromMetadata(metadataDir: string): number {
+    const keys = new Set<string>();
+    const files = FileUtils.listFilesRecursive(metadataDir, new RegExp(`${FILE_CONFIG.EXTENSIONS.METADATA.replace('.', '\\.')}$`));
+
+    for (const file of files) {
+      try {
+        const metadata = JSON.parse(FileUtils.readFile(path.join(metadataDir, file)));
+        if (typeof metadata.id === 'string' && metadata.id) {
+          keys.add(DownloadArchive.createKey(metadata.id, metadata.generation_id || undefined, metadata.variant || 'source'));
+        }
+      } catch (error) {
+        log.warn('Skipping unreadable metadata file during archive rebuild', { file, error: (error as Error).message });
+      }
+    }
+
+    FileUtils.ensureDirectoryExists(path.dirname(this.archivePath));
+    FileUtils.writeFile(this.archivePath, [...keys].map(key => `${ARCHIVE_PREFIX} ${key}\n`).join(''));
+    this.entries = keys;
+
+    log.info('Download archive rebuilt', { archivePath: this.archivePath, metadataDir, entries: keys.size });
+    return keys.size;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  getPath(): string {
+    return this.archivePath;
+  }
+}
@@ -0,0 +1,146 @@
+import { log } from '../../logger';
+
+export interface QueueStats {
+  pending: number;
+  active: number;
+  done: number;
+  failed: number;
+  total: number;
+}
+
+export interface DownloadQueueOptions {
+  concurrency: number;
+  perHostLimit?: number;
+  name?: string;
+  onStatsChange?: (stats: QueueStats) => void;
+}
+
+interface QueueJob<T> {
+  task: () => Promise<T>;
+  host: string;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Worker pool that keeps up to `concurrency` tasks in flight at all times,
+ * starting the next pending task as soon as any one finishes. Tasks may be
+ * tagged with a host so a single CDN never gets more than `perHostLimit`
+ * concurrent transfers.
+ */
+export class DownloadQueue<T> {
+  private concurrency: number;
+  private perHostLimit: number;
+  private name: string;
+  private onStatsChange?: (stats: QueueStats) => void;
+  private pending: QueueJob<T>[] = [];
+  private activeByHost: Map<string, number> = new Map();
+  private active = 0;
+  private done = 0;
+  private failed = 0;
+  private idleWaiters: Array<() => void> = [];
+  private capacityWaiters: Array<{ limit: number; resolve: () => void }> = [];
+
+  constructor(options: DownloadQueueOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.perHostLimit = Math.max(1, options.perHostLimit ?? this.concurrency);
+    this.name = options.name || 'downloadQueue';
+    this.onStatsChange = options.onStatsChange;
+  }
+
+  static hostOf(url: string | undefined): string {
+    try {
+      return url ? new URL(url).host : '';
+    } catch {
+      return '';
+    }
+  }
+
+  push(task: () => Promise<T>, host: string = ''): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ task, host, resolve, reject });
+      this.emitStats();
+      this.startNext();
+    });
+  }
+
+  /**
+   * Resolves once nothing is pending or running.
+   */
+  onIdle(): Promise<void> {
+    if (this.active === 0 && this.pending.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Resolves once fewer than `limit` tasks are waiting, so producers that
+   * generate work lazily (e.g. while parsing a file) don't run far ahead of
+   * the workers.
+   */
+  onPendingBelow(limit: number): Promise<void> {
+    if (this.pending.length < limit) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.capacityWaiters.push({ limit, resolve }));
+  }
+
+  getStats(): QueueStats {
+    return {
+      pending: this.pending.length,
+      active: this.active,
+      done: this.done,
+      failed: this.failed,
+      total: this.pending.length + this.active + this.done + this.failed
+    };
+  }
+
+  private startNext(): void {
+    while (this.active < this.concurrency) {
+      const index = this.pending.findIndex(job => (this.activeByHost.get(job.host) || 0) < this.perHostLimit);
+      if (index === -1) return;
+
+      const [job] = this.pending.splice(index, 1);
+      this.run(job);
+    }
+  }
+
+  private run(job: QueueJob<T>): void {
+    this.active++;
+    this.activeByHost.set(job.host, (this.activeByHost.get(job.host) || 0) + 1);
+    this.emitStats();
+
+    job.task().then(
+      (value) => {
+        this.done++;
+        job.resolve(value);
+      },
+      (error) => {
+        this.failed++;
+        job.reject(error);
+      }
+    ).finally(() => {
+      this.active--;
+      this.activeByHost.set(job.host, (this.activeByHost.get(job.host) || 1) - 1);
+      this.emitStats();
+      this.startNext();
+
+      this.capacityWaiters = this.capacityWaiters.filter(waiter => {
+        if (this.pending.length >= waiter.limit) return true;
+        waiter.resolve();
+        return false;
+      });
+
+      if (this.active === 0 && this.pending.length === 0) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+    });
+  }
+
+  private emitStats(): void {
+    const stats = this.getStats();
+    log.trace(`${this.name} stats`, { ...stats });
+    this.onStatsChange?.(stats);
+  }
+}
@@ -1,4 +1,10 @@
 // Core services exports
+export * from './bandwidth-limiter';
 export * from './base-service';
 export * from './config-manager';
+export * from './download-archive';
+export * from './download-queue';
+export * from './library-index';
 export * from './progress-manager';
+export * from './request-pacer';
+export * from './settings-resolver';
@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../../logger';
+import { FILE_CONFIG } from '../../config/constants';
+import { LibraryEntry, LibraryStats, VideoSidecar } from '../../types';
+import { FileUtils } from '../../utils/common/file-utils';
+import { Sidecar } from '../download/sidecar';
+import { DownloadArchive } from './download-archive';
+
+export type LibrarySortKey = 'downloaded_at' | 'posted_at' | 'like_count' | 'view_count' | 'remix_count' | 'duration';
+
+export const LIBRARY_SORT_KEYS: readonly LibrarySortKey[] = ['downloaded_at', 'posted_at', 'like_count', 'view_count', 'remix_count', 'duration'];
+
+export interface LibraryQuery {
+  // Matched against the id, title, prompt and author
+  text?: RegExp;
+  author?: string;
+  variant?: LibraryEntry['variant'];
+  // Newest or highest first unless `reverse`
+  sort?: LibrarySortKey;
+  reverse?: boolean;
+  limit?: number;
+}
+
+const TOP_AUTHORS = 5;
+
+function toRelativeFile(outputDir: string, filePath: string): string {
+  return FileUtils.getRelativePath(outputDir, filePath).split(path.sep).join('/');
+}
+
+function getSortValue(entry: LibraryEntry, key: LibrarySortKey): number {
+  switch (key) {
+    case 'downloaded_at':
+    case 'posted_at':
+      return entry[key] ? Date.parse(entry[key] as string) : NaN;
+    case 'duration':
+      return entry.duration ?? NaN;
+    default:
+      return entry.stats?.[key] ?? NaN;
+  }
+}
+
+/**
+ * Queryable index of everything downloaded into an output directory, one
+ * JSON line per video in `library.jsonl`. Downloads append to it; a later
+ * line for the same post and variant replaces an earlier one, and `rebuild`
+ * recreates the file from the metadata sidecars.
+ */
+export class LibraryIndex {
+  private indexPath: string;
+  private entries: Map<string, LibraryEntry> = new Map();
+
+  constructor(indexPath: string) {
+    this.indexPath = indexPath;
+    this.load();
+  }
+
+  static getDefaultPath(outputDir: string): string {
+    return FileUtils.joinPaths(outputDir, FILE_CONFIG.LIBRARY_FILE);
+  }
+
+  static createKey(entry: Pick<LibraryEntry, 'id' | 'generation_id' | 'variant'>): string {
+    return DownloadArchive.createKey(entry.id, entry.generation_id, entry.variant);
+  }
+
+  /**
+   * Index entry for a sidecar. `videoFile` is used when the sidecar doesn't
+   * record where the video was saved (sidecars from before hashes were kept).
+   */
+  static createEntry(sidecar: VideoSidecar, outputDir: string, metadataPath?: string, videoFile?: string): LibraryEntry {
+    const integrity = sidecar.integrity || {};
+    return {
+      id: sidecar.id,
+      generation_id: sidecar.generation_id,
+      variant: sidecar.variant,
+      title: sidecar.title,
+      prompt: sidecar.prompt,
+      author: sidecar.author || sidecar.profile?.username || sidecar.post?.shared_by,
+      permalink: sidecar.permalink,
+      posted_at: sidecar.posted_at,
+      downloaded_at: sidecar.downloaded_at,
+      duration: sidecar.duration,
+      width: sidecar.width,
+      height: sidecar.height,
+      stats: sidecar.stats,
+      bytes: integrity.video?.bytes,
+      video_file: integrity.video?.file || videoFile || toRelativeFile(outputDir, sidecar.video_path),
+      thumbnail_file: integrity.thumbnail?.file || (sidecar.thumbnail_path ? toRelativeFile(outputDir, sidecar.thumbnail_path) : undefined),
+      metadata_file: metadataPath ? toRelativeFile(outputDir, metadataPath) : undefined
+    };
+  }
+
+  private load(): void {
+    if (!FileUtils.fileExists(this.indexPath)) {
+      log.debug('Library index not found, starting empty', { indexPath: this.indexPath });
+      return;
+    }
+
+    let skipped = 0;
+    for (const line of FileUtils.readFile(this.indexPath).split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LibraryEntry;
+        if (typeof entry.id !== 'string' || typeof entry.video_file !== 'string') throw new Error('missing id or video_file');
+        this.entries.set(LibraryIndex.createKey(entry), entry);
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      log.warn('Skipped unreadable library index lines (run "library rebuild" to repair)', { indexPath: this.indexPath, skipped });
+    }
+    log.debug('Library index loaded', { indexPath: this.indexPath, entries: this.entries.size });
+  }
+
+  add(entry: LibraryEntry): void {
+    FileUtils.ensureDirectoryExists(path.dirname(this.indexPath));
+    fs.appendFileSync(this.indexPath, `${JSON.stringify(entry)}\n`, 'utf8');
+    this.entries.set(LibraryIndex.createKey(entry), entry);
+    log.debug('Added to library index', { indexPath: this.indexPath, id: entry.id, variant: entry.variant });
+  }
+
+  has(entry: Pick<LibraryEntry, 'id' | 'generation_id' | 'variant'>): boolean {
+    return this.entries.has(LibraryIndex.createKey(entry));
+  }
+
+  getEntries(): LibraryEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Entries for a post id (one per downloaded variant); a unique id prefix
+   * is enough.
+   */
+  find(id: string): LibraryEntry[] {
+    const exact = this.getEntries().filter(entry => entry.id === id);
+    if (exact.length > 0) return exact;
+
+    const matches = this.getEntries().filter(entry => entry.id.startsWith(id));
+    return new Set(matches.map(entry => entry.id)).size === 1 ? matches : [];
+  }
+
+  query(query: LibraryQuery = {}): LibraryEntry[] {
+    const author = query.author?.toLowerCase().replace(/^@/, '');
+    const text = query.text;
+    let entries = this.getEntries().filter(entry => {
+      if (author && entry.author?.toLowerCase() !== author) return false;
+      if (query.variant && entry.variant !== query.variant) return false;
+      if (text && ![entry.id, entry.title, entry.prompt, entry.author].some(value => value && text.test(value))) return false;
+      return true;
+    });
+
+    // Stable sort; entries without a value go last
+    const sortKey = query.sort || 'downloaded_at';
+    const direction = query.reverse ? 1 : -1;
+    entries = entries
+      .map(entry => ({ entry, value: getSortValue(entry, sortKey) }))
+      .sort((a, b) => {
+        const aMissing = isNaN(a.value);
+        const bMissing = isNaN(b.value);
+        if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+        return (a.value - b.value) * direction;
+      })
+      .map(({ entry }) => entry);
+
+    return query.limit !== undefined ? entries.slice(0, query.limit) : entries;
+  }
+
+  getStats(): LibraryStats {
+    const entries = this.getEntries();
+    const authorCounts = new Map<string, number>();
+    const variants: LibraryStats['variants'] = {};
+    const postedTimes: string[] = [];
+    const downloadedTimes: string[] = [];
+    let totalBytes = 0;
+    let totalDuration = 0;
+
+    for (const entry of entries) {
+      if (entry.author) authorCounts.set(entry.author, (authorCounts.get(entry.author) || 0) + 1);
+      variants[entry.variant] = (variants[entry.variant] || 0) + 1;
+      if (entry.posted_at) postedTimes.push(entry.posted_at);
+      downloadedTimes.push(entry.downloaded_at);
+      totalBytes += entry.bytes || 0;
+      totalDuration += entry.duration || 0;
+    }
+    // ISO 8601 UTC timestamps sort chronologically as strings
+    postedTimes.sort();
+    downloadedTimes.sort();
+
+    return {
+      entries: entries.length,
+      posts: new Set(entries.map(entry => entry.id)).size,
+      authors: authorCounts.size,
+      topAuthors: [...authorCounts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, TOP_AUTHORS)
+        .map(([author, count]) => ({ author, count })),
+      variants,
+      totalBytes,
+      totalDuration,
+      firstPostedAt: postedTimes[0],
+      lastPostedAt: postedTimes[postedTimes.length - 1],
+      firstDownloadedAt: downloadedTimes[0],
+      lastDownloadedAt: downloadedTimes[downloadedTimes.length - 1]
+    };
+  }
+
+  /**
+   * Replace the index with the downloads recorded in `outputDir`'s metadata
+   * sidecars. Returns the number of entries and of unreadable sidecars.
+   */
+  rebuildFromMetadata(outputDir: string): { entries: number; skipped: number } {
+    const metadataDir = FileUtils.joinPaths(outputDir, FILE_CONFIG.DIRECTORIES.METADATA);
+    const files = FileUtils.fileExists(metadataDir)
+      ? FileUtils.listFilesRecursive(metadataDir, new RegExp(`${FILE_CONFIG.EXTENSIONS.METADATA.replace('.', '\\.')}$`))
+      : [];
+
+    const entries: Map<string, LibraryEntry> = new Map();
+    let skipped = 0;
+    for (const file of files) {
+      const metadataPath = FileUtils.joinPaths(metadataDir, file);
+      try {
+        const sidecar = Sidecar.read(metadataPath);
+        // Sidecars mirror the video's location below videos/
+        const stem = file.slice(0, -FILE_CONFIG.EXTENSIONS.METADATA.length).split(path.sep).join('/');
+        const videoFile = `${FILE_CONFIG.DIRECTORIES.VIDEOS}/${stem}${path.extname(sidecar.video_path || '') || FILE_CONFIG.EXTENSIONS.VIDEO}`;
+        const entry = LibraryIndex.createEntry(sidecar, outputDir, metadataPath, videoFile);
+        entries.set(LibraryIndex.createKey(entry), entry);
+      } catch (error) {
+        skipped++;
+        log.warn('Skipping unreadable metadata file during library rebuild', { file, error: (error as Error).message });
+      }
+    }
+
+    FileUtils.ensureDirectoryExists(path.dirname(this.indexPath));
+    FileUtils.writeFile(this.indexPath, [...entries.values()].map(entry => `${JSON.stringify(entry)}\n`).join(''));
+    this.entries = entries;
+
+    log.info('Library index rebuilt', { indexPath: this.indexPath, outputDir, entries: entries.size, skipped });
+    return { entries: entries.size, skipped };
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  getPath(): string {
+    return this.indexPath;
+  }
+}
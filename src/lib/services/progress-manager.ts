@@ -1,11 +1,13 @@
 import ProgressBar from 'progress';
 import { log } from '../../logger';
+import { QueueStats } from './download-queue';
 
 export interface ProgressOptions {
   total: number;
   title?: string;
   format?: string;
   showProgress?: boolean;
+  showQueueStats?: boolean;
 }
 
 export class ProgressManager {
@@ -14,14 +16,20 @@ export class ProgressManager {
   private total: number;
   private title: string;
   private showProgress: boolean;
+  private queueStats?: QueueStats;
 
   constructor(options: ProgressOptions) {
     this.total = options.total;
     this.title = options.title || 'Processing';
     this.showProgress = options.showProgress ?? true;
 
+    if (options.showQueueStats) {
+      this.queueStats = { pending: this.total, active: 0, done: 0, failed: 0, total: this.total };
+    }
+
     if (this.showProgress && this.total > 0) {
-      const format = options.format || `${this.title} [:bar] :current/:total :percent :etas`;
+      const queueFormat = options.showQueueStats ? ' | active :active pending :pending failed :failed' : '';
+      const format = options.format || `${this.title} [:bar] :current/:total :percent :etas${queueFormat}`;
       this.progressBar = new ProgressBar(format, {
         complete: '█',
         incomplete: '░',
@@ -35,7 +43,7 @@ export class ProgressManager {
     this.current += increment;
 
     if (this.progressBar) {
-      this.progressBar.tick(increment, { message: message || '' });
+      this.progressBar.tick(increment, { message: message || '', ...this.queueStats });
     } else if (this.showProgress) {
       const percent = Math.round((this.current / this.total) * 100);
       process.stdout.write(`\r${this.title}: ${this.current}/${this.total} (${percent}%)`);
@@ -49,6 +57,22 @@ export class ProgressManager {
     });
   }
 
+  /**
+   * Show live worker-pool counters next to the bar (requires showQueueStats).
+   */
+  setQueueStats(stats: QueueStats): void {
+    if (!this.queueStats) return;
+    this.queueStats = { ...stats };
+
+    if (this.progressBar && !this.progressBar.complete) {
+      this.progressBar.render({ ...this.queueStats });
+    }
+  }
+
+  getQueueStats(): QueueStats | undefined {
+    return this.queueStats ? { ...this.queueStats } : undefined;
+  }
+
   setCurrent(current: number): void {
     const increment = current - this.current;
     this.update(increment);
@@ -0,0 +1,35 @@
+import { log } from '../../logger';
+
+/**
+ * Spaces out outgoing requests: each request starts at least `delayMs` plus
+ * a random `0..jitterMs` after the previous one, across every caller that
+ * shares the pacer (API and CDN alike).
+ */
+export class RequestPacer {
+  private delayMs: number;
+  private jitterMs: number;
+  private nextSlot = 0;
+
+  constructor(delayMs: number = 0, jitterMs: number = 0) {
+    this.delayMs = Math.max(0, delayMs);
+    this.jitterMs = Math.max(0, jitterMs);
+  }
+
+  isEnabled(): boolean {
+    return this.delayMs > 0 || this.jitterMs > 0;
+  }
+
+  async wait(operation: string = 'request'): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextSlot);
+    this.nextSlot = startAt + this.delayMs + Math.floor(Math.random() * this.jitterMs);
+
+    const waitMs = startAt - now;
+    if (waitMs > 0) {
+      log.trace('Pacing request', { operation, waitMs });
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+}
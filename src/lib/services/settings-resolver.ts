@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../../logger';
+import { APP_CONFIG } from '../../config/constants';
+import { AppConfig, ConfigIssue, ConfigManager, getDefaultConfig } from './config-manager';
+
+// requestHeaders and profiles only live in the user config file and aren't layered
+export type SettingKey = Exclude<keyof AppConfig, 'requestHeaders' | 'profiles' | 'activeProfile'>;
+export type Settings = Pick<AppConfig, SettingKey>;
+export type SettingSource = 'default' | 'user' | 'profile' | 'project' | 'env' | 'cli';
+
+export interface SettingOrigin {
+  source: SettingSource;
+  // Config file path, environment variable or CLI flag that supplied the value
+  location?: string;
+}
+
+export interface EffectiveSettings {
+  values: Settings;
+  origins: Record<SettingKey, SettingOrigin>;
+}
+
+export const SETTING_KEYS: SettingKey[] = [
+  'outputDir',
+  'maxConcurrent',
+  'maxRetryAttempts',
+  'retryBaseDelayMs',
+  'requestTimeoutMs',
+  'logLevel',
+  'logToFile',
+  'overwrite',
+  'debug'
+];
+
+// CLI flags that override a setting; the others can only be configured
+const SETTING_FLAGS: Partial<Record<SettingKey, string>> = {
+  outputDir: '--output-dir',
+  maxConcurrent: '--concurrent',
+  logLevel: '--log-level',
+  logToFile: '--log-to-file',
+  overwrite: '--overwrite',
+  debug: '--debug'
+};
+
+const NUMERIC_SETTINGS = new Set<SettingKey>(['maxConcurrent', 'maxRetryAttempts', 'retryBaseDelayMs', 'requestTimeoutMs']);
+
+/**
+ * Resolves each setting from, lowest to highest precedence: built-in
+ * defaults, ~/.sora-dl/config.json, the active profile, a project-local
+ * .sora-dlrc, SORA_DL_* environment variables and CLI flags, remembering
+ * which layer won.
+ */
+export class SettingsResolver {
+  static getEnvVarName(key: SettingKey): string {
+    return APP_CONFIG.SETTINGS_ENV_PREFIX + key.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase();
+  }
+
+  static getFlag(key: SettingKey): string | undefined {
+    return SETTING_FLAGS[key];
+  }
+
+  /**
+   * Whether a command option (by attribute name, e.g. `concurrent`) sets one
+   * of the layered settings rather than being a plain flag.
+   */
+  static isSettingOption(name: string): boolean {
+    return SETTING_KEYS.some(key => {
+      const flag = SETTING_FLAGS[key];
+      const attribute = flag?.slice(2).replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+      return key === name || attribute === name;
+    });
+  }
+
+  /**
+   * Nearest .sora-dlrc in `cwd` or one of its parent directories.
+   */
+  static findProjectConfig(cwd: string = process.cwd()): string | undefined {
+    let dir = path.resolve(cwd);
+    for (;;) {
+      const candidate = path.join(dir, APP_CONFIG.PROJECT_CONFIG_FILE);
+      if (fs.existsSync(candidate)) return candidate;
+      const parent = path.dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  static resolve(cliOverrides: Partial<Settings> = {}, cwd: string = process.cwd()): EffectiveSettings {
+    const configManager = ConfigManager.getInstance();
+    const values = {} as Settings;
+    const origins = {} as Record<SettingKey, SettingOrigin>;
+
+    const apply = (layer: Partial<AppConfig>, origin: (key: SettingKey) => SettingOrigin) => {
+      for (const key of SETTING_KEYS) {
+        if (layer[key] === undefined) continue;
+        (values as Record<SettingKey, unknown>)[key] = layer[key];
+        origins[key] = origin(key);
+      }
+    };
+
+    apply(getDefaultConfig(), () => ({ source: 'default' }));
+    apply(configManager.getStoredValues(), () => ({ source: 'user', location: configManager.getConfigPath() }));
+
+    const profile = configManager.getActiveProfile();
+    if (profile) {
+      apply(profile.config, () => ({ source: 'profile', location: profile.name }));
+    }
+
+    const projectConfig = this.findProjectConfig(cwd);
+    if (projectConfig) {
+      apply(this.readProjectConfig(projectConfig), () => ({ source: 'project', location: projectConfig }));
+    }
+
+    apply(this.readEnv(), key => ({ source: 'env', location: this.getEnvVarName(key) }));
+    apply(ConfigManager.validateValues(cliOverrides, 'command line'), key => ({ source: 'cli', location: SETTING_FLAGS[key] }));
+
+    log.debug('Settings resolved', { values, profile: profile?.name, projectConfig });
+    return { values, origins };
+  }
+
+  private static readProjectConfig(filePath: string): Partial<AppConfig> {
+    return ConfigManager.validateValues(ConfigManager.readJsonObject(filePath), filePath);
+  }
+
+  /**
+   * Check every SORA_DL_* setting variable, reporting all bad values rather
+   * than stopping at the first.
+   */
+  static validateEnv(): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    for (const key of SETTING_KEYS) {
+      try {
+        this.readEnvValue(key);
+      } catch (error) {
+        issues.push({ key: this.getEnvVarName(key), message: (error as Error).message });
+      }
+    }
+    return issues;
+  }
+
+  private static readEnv(): Partial<AppConfig> {
+    const result: Partial<AppConfig> = {};
+    for (const key of SETTING_KEYS) {
+      Object.assign(result, this.readEnvValue(key));
+    }
+    return result;
+  }
+
+  private static readEnvValue(key: SettingKey): Partial<AppConfig> {
+    const envVar = this.getEnvVarName(key);
+    const value = process.env[envVar];
+    if (value === undefined || value === '') return {};
+    // Non-numeric strings are passed through so validation reports them
+    const raw = NUMERIC_SETTINGS.has(key) && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    return ConfigManager.validateValues({ [key]: raw }, envVar);
+  }
+}
@@ -1,3 +1,8 @@
+export type FeedInputFormat = 'json' | 'har';
+
+export type VideoVariant = 'source' | 'watermarked';
+export type VariantSelection = VideoVariant | 'both';
+
 export interface VideoItem {
   id: string;
   title: string;
@@ -10,9 +15,19 @@ export interface VideoItem {
   prompt?: string;
   source?: string;
   generationId?: string;
+  post?: SoraPost;
+  attachment?: SoraAttachment;
+  profile?: SoraProfile;
+  variant?: VideoVariant;
+  permalink?: string;
+  width?: number;
+  height?: number;
+  // Author username, falling back to the user id in post.shared_by
+  author?: string;
 }
 
-// Sora-specific types matching the actual feed.json structure
+// Sora-specific types matching the actual feed.json structure. Fields not
+// present in every capture (older feeds, HAR post responses) are optional.
 export interface SoraAttachment {
   id: string;
   tags: string[];
@@ -33,6 +48,23 @@ export interface SoraAttachment {
     source_wm: { path: string };
     thumbnail: { path: string };
   };
+  asset_pointer?: string | null;
+  conversation_id?: string | null;
+}
+
+export interface SoraPostPermissions {
+  can_read: boolean;
+  can_write: boolean;
+  can_delete: boolean;
+  share_setting: string;
+}
+
+// A span of the post text linking to something, e.g. a mentioned profile
+export interface SoraTextFacet {
+  start: number;
+  end: number;
+  type: string;
+  profile?: Partial<SoraProfile>;
 }
 
 export interface SoraPost {
@@ -56,14 +88,69 @@ export interface SoraPost {
   cover_photo_url: string | null;
   preview_image_url: string;
   attachments: SoraAttachment[];
+  is_featured?: boolean | null;
+  // Set when the post was deleted or taken down
+  tombstoned_at?: number | null;
+  permalink?: string;
+  // Remix lineage: the post this one remixes, the root of the chain and the path between
+  parent_post_id?: string | null;
+  root_post_id?: string | null;
+  parent_path?: string[] | null;
+  parent_post?: SoraFeedItem | null;
+  ancestors?: SoraFeedItem[] | null;
+  remix_posts?: SoraFeedItem[] | null;
+  permissions?: SoraPostPermissions;
+  text_facets?: SoraTextFacet[];
+  // Profiles of people appearing in the video
+  cameo_profiles?: SoraProfile[] | null;
+  disabled_cameo_user_ids?: string[] | null;
+  user_disliked?: boolean;
+  dislike_count?: number;
+  emoji?: string | null;
+}
+
+export interface SoraProfile {
+  user_id: string;
+  username: string;
+  display_name: string | null;
+  permalink?: string;
+  description?: string | null;
+  location?: string | null;
+  website?: string | null;
+  profile_picture_url?: string | null;
+  profile_picture_id?: string | null;
+  profile_picture_file_id?: string | null;
+  is_default_profile_picture?: boolean;
+  cover_photo_url?: string | null;
+  verified?: boolean;
+  is_public_figure?: boolean;
+  public_figure_name?: string | null;
+  follower_count?: number;
+  following_count?: number;
+  post_count?: number;
+  reply_count?: number;
+  likes_received_count?: number;
+  remix_count?: number;
+  cameo_count?: number;
+  can_cameo?: boolean;
+  plan_type?: string | null;
+  created_at?: number;
+  updated_at?: number;
+  banned_at?: number | null;
+  // Relationship to the account that fetched the feed
+  is_following?: boolean;
+  follows_you?: boolean;
+  is_blocked?: boolean;
 }
 
 export interface SoraFeedItem {
   post: SoraPost;
+  profile?: SoraProfile;
 }
 
 export interface SoraFeedResponse {
   items: SoraFeedItem[];
+  cursor?: string | null;
 }
 
 export interface FeedResponse {
@@ -71,12 +158,192 @@ export interface FeedResponse {
   total: number;
   page?: number;
   hasMore?: boolean;
+  cursor?: string;
+}
+
+export interface FeedPaginationOptions {
+  cursor?: string;
+  maxPages?: number;
+  limit?: number;
+  since?: Date;
+  until?: Date;
+  // Keep only posts for which this returns true (see lib/feed/filter.ts)
+  filter?: (item: SoraFeedItem) => boolean;
 }
 
 export interface DownloadOptions {
   outputDir?: string;
   quality?: string;
   overwrite?: boolean;
+  archivePath?: string;
+  useArchive?: boolean;
+  outputTemplate?: string;
+  maxPerHost?: number;
+  limitRate?: number; // bytes per second across all concurrent downloads
+  requestDelayMs?: number;
+  requestJitterMs?: number;
+  variant?: VariantSelection;
+  requestTimeoutMs?: number;
+  // Write title, author, prompt, date, permalink and cover art into the MP4
+  embedMetadata?: boolean;
+  // Extra sidecar writers to run, see lib/download/sidecar-writers.ts (json is always written)
+  sidecarFormats?: string[];
+  nfoType?: NfoType;
+  // Add the author and post stats to srt/vtt prompt subtitles
+  subtitleDetails?: boolean;
+}
+
+// Root element of NFO sidecars, matching the media server library type
+export type NfoType = 'movie' | 'musicvideo';
+
+export interface FileDownloadOptions {
+  timeoutMs?: number;
+  operation?: string;
+  progressId?: string;
+}
+
+export interface FileDownloadResult {
+  path: string;
+  bytes: number;
+  resumed: boolean;
+  durationMs: number;
+}
+
+export interface NameCollision {
+  videoId: string;
+  conflictingId: string;
+  requestedPath: string;
+  resolvedPath: string;
+}
+
+export interface Mp4Box {
+  type: string;
+  offset: number;
+  size: number;
+  headerSize: number;
+}
+
+// iTunes-style tags written to moov/udta/meta/ilst
+export interface Mp4Tags {
+  title?: string;
+  artist?: string;
+  comment?: string;
+  // ISO 8601 date or date-time
+  date?: string;
+  permalink?: string;
+  // JPEG, PNG, BMP or WebP image bytes
+  cover?: Buffer;
+}
+
+export interface MediaCheckResult {
+  valid: boolean;
+  truncated?: boolean;
+  reason?: string;
+}
+
+// Recorded in the metadata sidecar; `file` is relative to the output directory
+export interface FileIntegrity {
+  file: string;
+  bytes: number;
+  sha256: string;
+  valid: boolean;
+}
+
+export interface DownloadIntegrity {
+  video?: FileIntegrity;
+  thumbnail?: FileIntegrity;
+}
+
+export interface PostStats {
+  like_count?: number;
+  view_count?: number;
+  unique_view_count?: number;
+  remix_count?: number;
+  reply_count?: number;
+  recursive_reply_count?: number;
+  dislike_count?: number;
+}
+
+/**
+ * Contents of metadata/<stem>_metadata.json. Files without `schema_version`
+ * are version 1, which has only the fields up to `integrity`.
+ */
+export interface VideoSidecar {
+  schema_version: number;
+  id: string;
+  title: string;
+  description?: string;
+  prompt?: string;
+  video_url: string;
+  thumbnail_url?: string;
+  source?: string;
+  generation_id?: string;
+  variant: VideoVariant;
+  video_path: string;
+  thumbnail_path?: string;
+  downloaded_at: string;
+  integrity?: DownloadIntegrity;
+  // Version 2: commonly used values at the top level...
+  permalink?: string;
+  posted_at?: string;
+  updated_at?: string;
+  width?: number;
+  height?: number;
+  // Seconds, from the downloaded file's movie header
+  duration?: number;
+  author?: string;
+  // Counts as of the download
+  stats?: PostStats;
+  // ...and the feed data as received, post attachments kept in `attachment`
+  post?: Omit<SoraPost, 'attachments'>;
+  attachment?: SoraAttachment;
+  profile?: SoraProfile;
+}
+
+// One downloaded video in the library index (library.jsonl); file paths are
+// relative to the output directory
+export interface LibraryEntry {
+  id: string;
+  generation_id?: string;
+  variant: VideoVariant;
+  title: string;
+  prompt?: string;
+  author?: string;
+  permalink?: string;
+  posted_at?: string;
+  downloaded_at: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+  stats?: PostStats;
+  bytes?: number;
+  video_file: string;
+  thumbnail_file?: string;
+  metadata_file?: string;
+}
+
+export interface LibraryStats {
+  entries: number;
+  posts: number;
+  authors: number;
+  topAuthors: { author: string; count: number }[];
+  variants: Partial<Record<VideoVariant, number>>;
+  totalBytes: number;
+  totalDuration: number;
+  firstPostedAt?: string;
+  lastPostedAt?: string;
+  firstDownloadedAt?: string;
+  lastDownloadedAt?: string;
+}
+
+export type VerifyStatus = 'ok' | 'missing' | 'truncated' | 'corrupted' | 'unverified';
+
+export interface VerifyResult {
+  videoId: string;
+  kind: 'video' | 'thumbnail';
+  file: string;
+  status: VerifyStatus;
+  detail?: string;
 }
 
 export interface VideoMetadata {
@@ -91,5 +358,7 @@ export interface VideoMetadata {
   width: number;
   height: number;
   generation_id: string;
+  variant?: VariantSelection;
+  watermarked_video_url?: string;
   download_path?: string;
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { log } from '../../logger';
+import { APP_CONFIG } from '../../config/constants';
+import { createCircuitOpenError } from './error-handler';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  cooldownMs?: number;
+  maxTrips?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open' | 'exhausted';
+
+interface HostCircuit {
+  consecutiveFailures: number;
+  trips: number;
+  openUntil: number;
+}
+
+/**
+ * Per-host circuit breaker. After `failureThreshold` consecutive failures
+ * against a host, requests to it wait out a cooldown (doubling on every
+ * further trip) instead of failing one video after another. The first
+ * request after a cooldown is a probe: a single failure reopens the
+ * circuit. Once a host has tripped more than `maxTrips` times, requests to
+ * it fail immediately with a CircuitOpenError so the run can stop.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private maxTrips: number;
+  private circuits: Map<string, HostCircuit> = new Map();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? APP_CONFIG.CIRCUIT_BREAKER_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? APP_CONFIG.CIRCUIT_BREAKER_COOLDOWN_MS;
+    this.maxTrips = options.maxTrips ?? APP_CONFIG.CIRCUIT_BREAKER_MAX_TRIPS;
+  }
+
+  /**
+   * Wait until a request to `host` may proceed.
+   */
+  async acquire(host: string): Promise<void> {
+    const circuit = this.circuits.get(host);
+    if (!circuit) return;
+
+    if (circuit.trips > this.maxTrips) {
+      throw createCircuitOpenError(`Giving up on ${host} after ${circuit.trips} circuit breaker trips`, {
+        host,
+        trips: circuit.trips
+      });
+    }
+
+    const waitMs = circuit.openUntil - Date.now();
+    if (waitMs > 0) {
+      log.debug('Circuit open, waiting before request', { host, waitMs });
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  recordSuccess(host: string): void {
+    if (this.circuits.delete(host)) {
+      log.info('Circuit closed after successful request', { host });
+    }
+  }
+
+  recordFailure(host: string): void {
+    const circuit = this.circuits.get(host) ?? { consecutiveFailures: 0, trips: 0, openUntil: 0 };
+    this.circuits.set(host, circuit);
+
+    // Requests already in flight when the circuit opened don't count again
+    if (circuit.openUntil > Date.now()) return;
+
+    circuit.consecutiveFailures++;
+    if (circuit.consecutiveFailures < this.failureThreshold) return;
+
+    circuit.trips++;
+    if (circuit.trips > this.maxTrips) {
+      log.error('Circuit breaker exhausted, aborting requests to host', { host, trips: circuit.trips });
+      console.error(`\n⛔ ${host} keeps failing, giving up on remaining requests to it`);
+      return;
+    }
+
+    const cooldownMs = this.cooldownMs * Math.pow(2, circuit.trips - 1);
+    circuit.openUntil = Date.now() + cooldownMs;
+    // Half-open after the cooldown: one more failure trips the circuit again
+    circuit.consecutiveFailures = this.failureThreshold - 1;
+
+    log.warn('Circuit breaker opened', { host, trips: circuit.trips, cooldownMs });
+    console.warn(`\n⏸️  ${host} failed ${this.failureThreshold} times in a row, pausing requests for ${Math.ceil(cooldownMs / 1000)}s`);
+  }
+
+  getState(host: string): CircuitState {
+    const circuit = this.circuits.get(host);
+    if (!circuit) return 'closed';
+    if (circuit.trips > this.maxTrips) return 'exhausted';
+    if (circuit.openUntil > Date.now()) return 'open';
+    return circuit.trips > 0 ? 'half-open' : 'closed';
+  }
+}
@@ -1,3 +1,4 @@
+import axios from 'axios';
 import { log } from '../../logger';
 // import { ERROR_MESSAGES } from '../config/constants'; // TODO: Use this constant
 
@@ -51,6 +52,26 @@ export class APIError extends AppError {
   }
 }
 
+export class CircuitOpenError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'CIRCUIT_OPEN', context);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Transient by definition: the request may succeed if repeated later
+const RETRIABLE_STATUS_CODES = new Set([408, 425, 429]);
+
+const RETRIABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'ERR_NETWORK'
+]);
+
 export function handleError(error: unknown, context?: string): never {
   if (error instanceof AppError) {
     log.error(`Application error${context ? ` in ${context}` : ''}`, error.context, error);
@@ -72,11 +93,63 @@ export function handleError(error: unknown, context?: string): never {
   throw new AppError(errorMessage, 'UNKNOWN_ERROR', { originalError: error });
 }
 
+/**
+ * HTTP status of a failed request, from an axios error or an AppError whose
+ * context carries `statusCode`.
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  if (axios.isAxiosError(error)) {
+    return error.response?.status;
+  }
+  if (error instanceof AppError && typeof error.context?.statusCode === 'number') {
+    return error.context.statusCode;
+  }
+  return undefined;
+}
+
+export function isRetriableStatus(status: number): boolean {
+  return RETRIABLE_STATUS_CODES.has(status) || status >= 500;
+}
+
+/**
+ * Delay requested by a `Retry-After` header, given either in seconds or as
+ * an HTTP date. Returns undefined when the response has no usable header.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error) || !error.response) return undefined;
+
+  const header = error.response.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') return undefined;
+
+  const value = String(header).trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 export function isRetriableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+
+  // A status code is the most reliable signal: 4xx other than 408/425/429
+  // (auth, not found, forbidden) will fail the same way every time
+  const status = getHttpStatus(error);
+  if (status !== undefined) {
+    return isRetriableStatus(status);
+  }
+
   if (error instanceof NetworkError) {
     return true;
   }
 
+  if (axios.isAxiosError(error) && error.code && RETRIABLE_ERROR_CODES.has(error.code)) {
+    return true;
+  }
+
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
     return (
@@ -104,6 +177,10 @@ export function createFileSystemError(message: string, context?: Record<string,
   return new FileSystemError(message, context);
 }
 
+export function createCircuitOpenError(message: string, context?: Record<string, any>): CircuitOpenError {
+  return new CircuitOpenError(message, context);
+}
+
 export function createAPIError(message: string, context?: Record<string, any>): APIError {
   return new APIError(message, context);
 }
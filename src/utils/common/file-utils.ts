@@ -1,15 +1,35 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { log } from '../../logger';
 import { FILE_CONFIG } from '../../config/constants';
 import { createFileSystemError } from './error-handler';
 
 export class FileUtils {
   static sanitizeFileName(fileName: string): string {
-    return fileName
-      .replace(/[<>:"/\\|?*]/g, '')
-      .replace(/\s+/g, '_')
-      .substring(0, FILE_CONFIG.MAX_FILENAME_LENGTH);
+    return this.truncateFileName(
+      fileName
+        .replace(/[<>:"/\\|?*]/g, '')
+        .replace(/\s+/g, '_')
+    );
+  }
+
+  /**
+   * Truncate to a UTF-8 byte budget without splitting multi-byte characters,
+   * since filesystems limit name length in bytes rather than characters.
+   */
+  static truncateFileName(fileName: string, maxBytes: number = FILE_CONFIG.MAX_FILENAME_LENGTH): string {
+    if (Buffer.byteLength(fileName, 'utf8') <= maxBytes) return fileName;
+
+    let result = '';
+    let bytes = 0;
+    for (const char of fileName) {
+      const charBytes = Buffer.byteLength(char, 'utf8');
+      if (bytes + charBytes > maxBytes) break;
+      result += char;
+      bytes += charBytes;
+    }
+    return result;
   }
 
   static ensureDirectoryExists(dirPath: string): void {
@@ -60,6 +80,16 @@ export class FileUtils {
     this.writeFile(filePath, content);
   }
 
+  static renameFile(fromPath: string, toPath: string): void {
+    try {
+      fs.renameSync(fromPath, toPath);
+      log.debug('File renamed', { fromPath, toPath });
+    } catch (error) {
+      log.error('Failed to rename file', { fromPath, toPath }, error as Error);
+      throw createFileSystemError(`Failed to rename file: ${fromPath}`, { fromPath, toPath, error });
+    }
+  }
+
   static deleteFile(filePath: string): void {
     try {
       if (fs.existsSync(filePath)) {
@@ -131,10 +161,38 @@ export class FileUtils {
     }
   }
 
-  static createWriteStream(filePath: string): fs.WriteStream {
+  /**
+   * List files below a directory, returning paths relative to it.
+   */
+  static listFilesRecursive(directory: string, pattern?: RegExp): string[] {
+    const results: string[] = [];
+    const walk = (relativeDir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(path.join(directory, relativeDir), { withFileTypes: true });
+      } catch (error) {
+        log.warn('Failed to list files', { directory: path.join(directory, relativeDir), error: (error as Error).message });
+        return;
+      }
+
+      for (const entry of entries) {
+        const relativePath = path.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          walk(relativePath);
+        } else if (!pattern || pattern.test(entry.name)) {
+          results.push(relativePath);
+        }
+      }
+    };
+
+    walk('');
+    return results;
+  }
+
+  static createWriteStream(filePath: string, append: boolean = false): fs.WriteStream {
     try {
-      const stream = fs.createWriteStream(filePath);
-      log.debug('Created write stream', { filePath });
+      const stream = fs.createWriteStream(filePath, { flags: append ? 'a' : 'w' });
+      log.debug('Created write stream', { filePath, append });
       return stream;
     } catch (error) {
       log.error('Failed to create write stream', { filePath }, error as Error);
@@ -142,6 +200,33 @@ export class FileUtils {
     }
   }
 
+  /**
+   * Read up to `length` bytes at `offset`; shorter at end of file.
+   */
+  static readBytes(filePath: string, offset: number, length: number): Buffer {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const bytesRead = fs.readSync(fd, buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  static async hashFile(filePath: string, algorithm: string = 'sha256'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash(algorithm);
+      const stream = fs.createReadStream(filePath);
+      stream.on('data', chunk => hash.update(chunk));
+      stream.on('end', () => resolve(hash.digest('hex')));
+      stream.on('error', (error) => {
+        log.error('Failed to hash file', { filePath, algorithm }, error);
+        reject(createFileSystemError(`Failed to hash file: ${filePath}`, { filePath, error }));
+      });
+    });
+  }
+
   static createReadStream(filePath: string): fs.ReadStream {
     try {
       const stream = fs.createReadStream(filePath);
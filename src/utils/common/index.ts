@@ -1,4 +1,5 @@
 // Common utility exports
+export * from './circuit-breaker';
 export * from './error-handler';
 export * from './file-utils';
 export * from './retry';
@@ -1,50 +1,86 @@
 import { log } from '../../logger';
 import { APP_CONFIG } from '../../config/constants';
-import { isRetriableError, handleError } from './error-handler';
+import { isRetriableError, getHttpStatus, getRetryAfterMs, handleError } from './error-handler';
+import { CircuitBreaker } from './circuit-breaker';
 
 export interface RetryOptions {
   maxAttempts?: number;
   baseDelayMs?: number;
   maxDelayMs?: number;
   backoffMultiplier?: number;
+  jitter?: boolean;
+  maxRetryAfterMs?: number;
   operation?: string;
+  circuitBreaker?: CircuitBreaker;
+  circuitKey?: string;
 }
 
+export type RetrySettings = Required<Omit<RetryOptions, 'circuitBreaker' | 'circuitKey'>>;
+
 export class RetryManager {
-  private static defaultOptions: Required<RetryOptions> = {
+  private static defaultOptions: RetrySettings = {
     maxAttempts: APP_CONFIG.MAX_RETRY_ATTEMPTS,
     baseDelayMs: APP_CONFIG.RETRY_BASE_DELAY_MS,
     maxDelayMs: 30000, // 30 seconds
     backoffMultiplier: 2,
+    jitter: true,
+    maxRetryAfterMs: APP_CONFIG.MAX_RETRY_AFTER_MS,
     operation: 'operation'
   };
 
+  /**
+   * Change the defaults used when a call doesn't pass its own, e.g. to apply
+   * the configured retry attempts and base delay.
+   */
+  static configure(defaults: Partial<RetrySettings>): void {
+    this.defaultOptions = { ...this.defaultOptions, ...defaults };
+  }
+
   static async execute<T>(
     operation: () => Promise<T>,
     options: RetryOptions = {}
   ): Promise<T> {
-    const opts = { ...this.defaultOptions, ...options };
+    const { circuitBreaker, circuitKey, ...settings } = options;
+    const opts: RetrySettings = { ...this.defaultOptions, ...settings };
+    const host = circuitKey || '';
+    const breaker = host ? circuitBreaker : undefined;
     
     for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
       try {
+        await breaker?.acquire(host);
         log.debug(`Attempting ${opts.operation}`, { attempt, maxAttempts: opts.maxAttempts });
         const result = await operation();
+        breaker?.recordSuccess(host);
         log.debug(`${opts.operation} succeeded`, { attempt });
         return result;
       } catch (error) {
-        const isRetriable = isRetriableError(error);
+        let isRetriable = isRetriableError(error);
+        const statusCode = getHttpStatus(error);
+        const retryAfterMs = getRetryAfterMs(error);
+
+        // Only transient failures say something about the host's health
+        if (isRetriable) {
+          breaker?.recordFailure(host);
+        }
         
         log.logRetry(opts.operation, attempt, opts.maxAttempts, error as Error);
 
+        if (isRetriable && retryAfterMs !== undefined && retryAfterMs > opts.maxRetryAfterMs) {
+          log.warn(`Retry-After for ${opts.operation} exceeds limit, not retrying`, {
+            retryAfterMs,
+            maxRetryAfterMs: opts.maxRetryAfterMs
+          });
+          isRetriable = false;
+        }
+
         if (attempt < opts.maxAttempts && isRetriable) {
-          const delay = Math.min(
-            opts.baseDelayMs * Math.pow(opts.backoffMultiplier, attempt - 1),
-            opts.maxDelayMs
-          );
+          const delay = this.computeDelay(attempt, opts, retryAfterMs);
           
           log.debug(`Retrying ${opts.operation} after delay`, { 
             attempt, 
             delay, 
+            statusCode,
+            retryAfterMs,
             retriable: true 
           });
           
@@ -56,6 +92,7 @@ export class RetryManager {
           attempt,
           maxAttempts: opts.maxAttempts,
           retriable: isRetriable,
+          statusCode,
           errorCode: (error as any)?.code
         }, error as Error);
         
@@ -66,6 +103,20 @@ export class RetryManager {
     throw new Error('Max retry attempts reached');
   }
 
+  /**
+   * Exponential backoff with equal jitter, so concurrent workers that failed
+   * together don't retry in lockstep. A server-provided Retry-After is a
+   * lower bound.
+   */
+  private static computeDelay(attempt: number, opts: RetrySettings, retryAfterMs?: number): number {
+    const backoff = Math.min(
+      opts.baseDelayMs * Math.pow(opts.backoffMultiplier, attempt - 1),
+      opts.maxDelayMs
+    );
+    const delay = opts.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+    return Math.round(Math.max(delay, retryAfterMs ?? 0));
+  }
+
   private static delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
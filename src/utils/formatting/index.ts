@@ -7,6 +7,17 @@ export class FormatUtils {
     return `${value.toFixed(value >= 100 ? 0 : value >= 10 ? 1 : 2)} ${units[i]}`;
   }
 
+  /**
+   * Parse sizes like "500K", "2M", "1.5G" or "2MB" (binary units) into bytes.
+   * Returns NaN for anything unparseable.
+   */
+  static parseBytes(value: string): number {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*([KMGT]?)(?:i?B)?\s*$/i.exec(value);
+    if (!match) return NaN;
+    const exponent = ['', 'K', 'M', 'G', 'T'].indexOf(match[2].toUpperCase());
+    return Math.floor(parseFloat(match[1]) * Math.pow(1024, exponent));
+  }
+
   static formatDuration(ms: number): string {
     if (ms < 1000) return `${ms}ms`;
     if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
@@ -3,3 +3,4 @@ export * from './common';
 export * from './validation';
 export * from './formatting';
 export * from './monitoring';
+export * from './media';
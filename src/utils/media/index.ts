@@ -0,0 +1,4 @@
+// Media container utility exports
+export * from './mp4';
+export * from './webp';
+export * from './mp4-tags';
@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import { FileUtils } from '../common/file-utils';
+import { createFileSystemError } from '../common/error-handler';
+import { FILE_CONFIG } from '../../config/constants';
+import { Mp4Box, Mp4Tags } from '../../types';
+import { Mp4Utils } from './mp4';
+
+// Well-known types of an ilst `data` atom
+const DATA_TYPE = {
+  UTF8: 1,
+  JPEG: 13,
+  PNG: 14,
+  BMP: 27
+} as const;
+
+const STRING_ITEMS: Record<'title' | 'artist' | 'comment' | 'date', string> = {
+  title: '©nam',
+  artist: '©ART',
+  comment: '©cmt',
+  date: '©day'
+};
+const COVER_ITEM = 'covr';
+// Freeform ("----") items are keyed by a reverse-DNS mean and a name
+const FREEFORM_ITEM = '----';
+const FREEFORM_MEAN = 'com.apple.iTunes';
+const PERMALINK_NAME = 'PERMALINK';
+
+const STBL_PATH = ['trak', 'mdia', 'minf', 'stbl'];
+const COPY_CHUNK_SIZE = 1024 * 1024;
+const UINT32_MAX = 0xffffffff;
+
+// Payload offset of a box held in its own buffer (32- or 64-bit size)
+function headerSizeOf(box: Buffer): number {
+  return box.readUInt32BE(0) === 1 ? 16 : 8;
+}
+
+function createBox(type: string, ...payload: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + payload.reduce((total, part) => total + part.length, 0), 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, ...payload]);
+}
+
+function createDataBox(dataType: number, value: Buffer): Buffer {
+  // 1 byte version + 3 byte type, then a 4 byte locale
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(dataType, 0);
+  return createBox('data', header, value);
+}
+
+function createFreeformItem(name: string, value: string): Buffer {
+  const noFlags = Buffer.alloc(4);
+  return createBox(
+    FREEFORM_ITEM,
+    createBox('mean', noFlags, Buffer.from(FREEFORM_MEAN, 'latin1')),
+    createBox('name', noFlags, Buffer.from(name, 'latin1')),
+    createDataBox(DATA_TYPE.UTF8, Buffer.from(value, 'utf8'))
+  );
+}
+
+// Metadata handler a player looks for before reading ilst
+function createMetadataHandler(): Buffer {
+  const payload = Buffer.alloc(25);
+  payload.write('mdir', 8, 'latin1');
+  payload.write('appl', 12, 'latin1');
+  return createBox('hdlr', payload);
+}
+
+/**
+ * Writes iTunes-style metadata (title, artist, comment, date, a permalink and
+ * cover art) into an MP4 file in place of any existing values, keeping every
+ * other tag. Sample chunk offsets are moved when a larger or smaller `moov`
+ * shifts the media data behind it.
+ */
+export class Mp4Tagger {
+  /**
+   * Cover art type from the image signature, or undefined for formats
+   * players don't show as cover art (such as WebP, which has no registered
+   * type). Such covers are left out.
+   */
+  static getImageDataType(image: Buffer): number | undefined {
+    if (image.length >= 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) return DATA_TYPE.JPEG;
+    if (image.length >= 8 && image.toString('latin1', 1, 4) === 'PNG') return DATA_TYPE.PNG;
+    if (image.length >= 2 && image.toString('latin1', 0, 2) === 'BM') return DATA_TYPE.BMP;
+    return undefined;
+  }
+
+  /**
+   * Tag `filePath` through a temporary copy that replaces the original only
+   * once it passes the container check.
+   */
+  static write(filePath: string, tags: Mp4Tags): void {
+    const { boxes, truncated } = Mp4Utils.readTopLevelBoxes(filePath);
+    const moov = boxes.find(box => box.type === 'moov');
+    if (truncated || !moov) {
+      throw createFileSystemError('Cannot tag an incomplete MP4 file', { filePath, truncated });
+    }
+    if (boxes.some(box => box.type === 'moof')) {
+      throw createFileSystemError('Tagging fragmented MP4 files is not supported', { filePath });
+    }
+
+    const moovData = FileUtils.readBytes(filePath, moov.offset, moov.size);
+    const updated = this.rebuildMoov(moovData, this.readChildren(moovData, moov.headerSize, moovData.length), tags);
+    const delta = updated.length - moov.size;
+    if (delta !== 0) {
+      this.shiftChunkOffsets(updated, moov.offset + moov.size, delta);
+    }
+
+    const tempPath = `${filePath}${FILE_CONFIG.EXTENSIONS.TEMPORARY}`;
+    try {
+      this.writeWithMoov(filePath, tempPath, moov, updated);
+      const check = Mp4Utils.validate(tempPath);
+      if (!check.valid) {
+        throw createFileSystemError(`Tagged file is not a valid MP4 (${check.reason})`, { filePath });
+      }
+      FileUtils.renameFile(tempPath, filePath);
+    } finally {
+      FileUtils.deleteFile(tempPath);
+    }
+  }
+
+  private static readChildren(buffer: Buffer, start: number, end: number): Mp4Box[] {
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+
+    // Fewer than 8 trailing bytes are padding, e.g. QuickTime's udta terminator
+    while (offset + 8 <= end) {
+      let size = buffer.readUInt32BE(offset);
+      const type = buffer.toString('latin1', offset + 4, offset + 8);
+      let headerSize = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(buffer.readBigUInt64BE(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+
+      if (size < headerSize || offset + size > end) {
+        throw createFileSystemError(`Malformed MP4 box "${type}" in moov`, { offset, size });
+      }
+      boxes.push({ type, offset, size, headerSize });
+      offset += size;
+    }
+    return boxes;
+  }
+
+  private static slice(buffer: Buffer, box: Mp4Box): Buffer {
+    return buffer.subarray(box.offset, box.offset + box.size);
+  }
+
+  private static rebuildMoov(moov: Buffer, children: Mp4Box[], tags: Mp4Tags): Buffer {
+    const udta = children.find(box => box.type === 'udta');
+    const udtaData = udta ? this.slice(moov, udta) : undefined;
+    const updatedUdta = this.rebuildUdta(udtaData, tags);
+
+    const parts = children.map(box => box === udta ? updatedUdta : this.slice(moov, box));
+    if (!udta) parts.push(updatedUdta);
+    return createBox('moov', ...parts);
+  }
+
+  private static rebuildUdta(udta: Buffer | undefined, tags: Mp4Tags): Buffer {
+    const children = udta ? this.readChildren(udta, headerSizeOf(udta), udta.length) : [];
+    const meta = children.find(box => box.type === 'meta');
+    const updatedMeta = this.rebuildMeta(meta && udta ? this.slice(udta, meta) : undefined, tags);
+
+    const parts = children.map(box => box === meta ? updatedMeta : this.slice(udta as Buffer, box));
+    if (!meta) parts.push(updatedMeta);
+    return createBox('udta', ...parts);
+  }
+
+  private static rebuildMeta(meta: Buffer | undefined, tags: Mp4Tags): Buffer {
+    // ISO meta is a full box (4 bytes version and flags); QuickTime's starts with its children
+    const headerSize = meta ? headerSizeOf(meta) : 8;
+    const isFullBox = !meta || meta.toString('latin1', headerSize + 4, headerSize + 8) !== 'hdlr';
+    const children = meta ? this.readChildren(meta, headerSize + (isFullBox ? 4 : 0), meta.length) : [];
+
+    const parts: Buffer[] = [];
+    if (!children.some(box => box.type === 'hdlr')) parts.push(createMetadataHandler());
+
+    const ilst = children.find(box => box.type === 'ilst');
+    const updatedIlst = this.rebuildIlst(ilst && meta ? this.slice(meta, ilst) : undefined, tags);
+    parts.push(...children.map(box => box === ilst ? updatedIlst : this.slice(meta as Buffer, box)));
+    if (!ilst) parts.push(updatedIlst);
+
+    return isFullBox ? createBox('meta', Buffer.alloc(4), ...parts) : createBox('meta', ...parts);
+  }
+
+  private static rebuildIlst(ilst: Buffer | undefined, tags: Mp4Tags): Buffer {
+    const items: Buffer[] = [];
+    const replaced = new Set<string>();
+
+    for (const key of Object.keys(STRING_ITEMS) as (keyof typeof STRING_ITEMS)[]) {
+      const value = tags[key];
+      if (!value) continue;
+      items.push(createBox(STRING_ITEMS[key], createDataBox(DATA_TYPE.UTF8, Buffer.from(value, 'utf8'))));
+      replaced.add(STRING_ITEMS[key]);
+    }
+    const coverType = tags.cover ? this.getImageDataType(tags.cover) : undefined;
+    if (tags.cover && coverType !== undefined) {
+      items.push(createBox(COVER_ITEM, createDataBox(coverType, tags.cover)));
+      replaced.add(COVER_ITEM);
+    }
+    if (tags.permalink) {
+      items.push(createFreeformItem(PERMALINK_NAME, tags.permalink));
+    }
+
+    const kept = ilst
+      ? this.readChildren(ilst, headerSizeOf(ilst), ilst.length)
+        .filter(item => !replaced.has(item.type) && !(tags.permalink && this.isFreeformItem(ilst, item, PERMALINK_NAME)))
+        .map(item => this.slice(ilst, item))
+      : [];
+    return createBox('ilst', ...kept, ...items);
+  }
+
+  private static isFreeformItem(ilst: Buffer, item: Mp4Box, name: string): boolean {
+    if (item.type !== FREEFORM_ITEM) return false;
+    const nameBox = this.readChildren(ilst, item.offset + item.headerSize, item.offset + item.size).find(box => box.type === 'name');
+    return !!nameBox && ilst.toString('latin1', nameBox.offset + 12, nameBox.offset + nameBox.size) === name;
+  }
+
+  private static findBoxes(buffer: Buffer, parent: Mp4Box, path: string[]): Mp4Box[] {
+    if (path.length === 0) return [parent];
+    return this.readChildren(buffer, parent.offset + parent.headerSize, parent.offset + parent.size)
+      .filter(box => box.type === path[0])
+      .flatMap(box => this.findBoxes(buffer, box, path.slice(1)));
+  }
+
+  /**
+   * Move every chunk offset (stco/co64) that points at or past `from` by
+   * `delta` bytes, in place.
+   */
+  private static shiftChunkOffsets(moov: Buffer, from: number, delta: number): void {
+    const root: Mp4Box = { type: 'moov', offset: 0, size: moov.length, headerSize: 8 };
+
+    const tables = this.findBoxes(moov, root, STBL_PATH)
+      .flatMap(stbl => this.readChildren(moov, stbl.offset + stbl.headerSize, stbl.offset + stbl.size))
+      .filter(box => box.type === 'stco' || box.type === 'co64');
+
+    for (const table of tables) {
+      // Full box header, then a 32-bit entry count
+      const countOffset = table.offset + table.headerSize + 4;
+      const entrySize = table.type === 'co64' ? 8 : 4;
+      const count = moov.readUInt32BE(countOffset);
+      if (countOffset + 4 + count * entrySize > table.offset + table.size) {
+        throw createFileSystemError(`Malformed MP4 ${table.type} table`, { count });
+      }
+
+      for (let i = 0; i < count; i++) {
+        const position = countOffset + 4 + i * entrySize;
+        const offset = entrySize === 8 ? Number(moov.readBigUInt64BE(position)) : moov.readUInt32BE(position);
+        if (offset < from) continue;
+
+        if (entrySize === 8) {
+          moov.writeBigUInt64BE(BigInt(offset + delta), position);
+        } else if (offset + delta > UINT32_MAX) {
+          throw createFileSystemError('Tagging would move media data past the 4 GB limit of 32-bit chunk offsets', { offset });
+        } else {
+          moov.writeUInt32BE(offset + delta, position);
+        }
+      }
+    }
+  }
+
+  private static writeWithMoov(sourcePath: string, targetPath: string, moov: Mp4Box, updatedMoov: Buffer): void {
+    const fileSize = FileUtils.getFileSize(sourcePath);
+    const source = fs.openSync(sourcePath, 'r');
+    const target = fs.openSync(targetPath, 'w');
+    try {
+      const copyRange = (start: number, end: number) => {
+        const buffer = Buffer.alloc(Math.min(COPY_CHUNK_SIZE, Math.max(end - start, 0)));
+        for (let position = start; position < end;) {
+          const bytesRead = fs.readSync(source, buffer, 0, Math.min(buffer.length, end - position), position);
+          if (bytesRead === 0) break;
+          fs.writeSync(target, buffer, 0, bytesRead);
+          position += bytesRead;
+        }
+      };
+
+      copyRange(0, moov.offset);
+      fs.writeSync(target, updatedMoov);
+      copyRange(moov.offset + moov.size, fileSize);
+    } finally {
+      fs.closeSync(source);
+      fs.closeSync(target);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { FileUtils } from '../common/file-utils';
+import { MediaCheckResult, Mp4Box } from '../../types';
+
+const BOX_HEADER_SIZE = 8;
+
+export class Mp4Utils {
+  /**
+   * Walk the top-level boxes of an MP4 file without reading their payloads.
+   * Stops at the first box whose header is unreadable or that claims to
+   * extend past the end of the file; `truncated` reports the latter.
+   */
+  static readTopLevelBoxes(filePath: string): { boxes: Mp4Box[]; truncated: boolean } {
+    const fileSize = FileUtils.getFileSize(filePath);
+    const boxes: Mp4Box[] = [];
+    let offset = 0;
+
+    while (offset + BOX_HEADER_SIZE <= fileSize) {
+      const header = FileUtils.readBytes(filePath, offset, 16);
+      let size = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      let headerSize = BOX_HEADER_SIZE;
+
+      if (size === 1) {
+        // 64-bit "largesize" follows the type
+        if (header.length < 16) return { boxes, truncated: true };
+        size = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (size === 0) {
+        // Box extends to the end of the file
+        size = fileSize - offset;
+      }
+
+      if (size < headerSize) {
+        return { boxes, truncated: false };
+      }
+      if (offset + size > fileSize) {
+        boxes.push({ type, offset, size, headerSize });
+        return { boxes, truncated: true };
+      }
+
+      boxes.push({ type, offset, size, headerSize });
+      offset += size;
+    }
+
+    return { boxes, truncated: offset < fileSize };
+  }
+
+  /**
+   * Duration in seconds from the movie header (moov/mvhd), or undefined when
+   * the file has none or it declares an unknown duration.
+   */
+  static readDuration(filePath: string): number | undefined {
+    const moov = this.readTopLevelBoxes(filePath).boxes.find(box => box.type === 'moov');
+    if (!moov) return undefined;
+
+    const end = moov.offset + moov.size;
+    let offset = moov.offset + moov.headerSize;
+    while (offset + BOX_HEADER_SIZE <= end) {
+      const header = FileUtils.readBytes(filePath, offset, 16);
+      const type = header.toString('latin1', 4, 8);
+      let size = header.readUInt32BE(0);
+      let headerSize = BOX_HEADER_SIZE;
+      if (size === 1 && header.length >= 16) {
+        size = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      }
+      if (size < headerSize) return undefined;
+
+      if (type === 'mvhd') {
+        // Version 1 uses 64-bit creation/modification times and duration
+        const body = FileUtils.readBytes(filePath, offset + headerSize, 32);
+        const version = body[0];
+        if (body.length < (version === 1 ? 32 : 20)) return undefined;
+        const timescale = body.readUInt32BE(version === 1 ? 20 : 12);
+        const duration = version === 1 ? Number(body.readBigUInt64BE(24)) : body.readUInt32BE(16);
+        const unknown = version === 1 ? body.readBigUInt64BE(24) === 0xffffffffffffffffn : duration === 0xffffffff;
+        return timescale > 0 && duration > 0 && !unknown ? duration / timescale : undefined;
+      }
+      offset += size;
+    }
+    return undefined;
+  }
+
+  /**
+   * Sanity-check the container: an MP4 starts with `ftyp`, carries a `moov`
+   * box and its top-level boxes tile the file exactly.
+   */
+  static validate(filePath: string): MediaCheckResult {
+    if (!FileUtils.fileExists(filePath)) {
+      return { valid: false, reason: 'file not found' };
+    }
+
+    const { boxes, truncated } = this.readTopLevelBoxes(filePath);
+    if (boxes.length === 0 || boxes[0].type !== 'ftyp') {
+      return { valid: false, reason: 'missing ftyp box' };
+    }
+    if (truncated) {
+      return { valid: false, truncated: true, reason: `box "${boxes[boxes.length - 1].type}" extends past end of file` };
+    }
+    if (!boxes.some(box => box.type === 'moov')) {
+      return { valid: false, reason: 'missing moov box' };
+    }
+    return { valid: true };
+  }
+}
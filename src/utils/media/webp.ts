@@ -0,0 +1,28 @@
+import { FileUtils } from '../common/file-utils';
+import { MediaCheckResult } from '../../types';
+
+const RIFF_HEADER_SIZE = 12;
+
+export class WebpUtils {
+  /**
+   * Check the RIFF/WEBP header and that the RIFF chunk size matches the file.
+   */
+  static validate(filePath: string): MediaCheckResult {
+    if (!FileUtils.fileExists(filePath)) {
+      return { valid: false, reason: 'file not found' };
+    }
+
+    const header = FileUtils.readBytes(filePath, 0, RIFF_HEADER_SIZE);
+    if (header.length < RIFF_HEADER_SIZE || header.toString('latin1', 0, 4) !== 'RIFF' || header.toString('latin1', 8, 12) !== 'WEBP') {
+      return { valid: false, reason: 'missing RIFF/WEBP header' };
+    }
+
+    // The RIFF size excludes the 8-byte "RIFF<size>" preamble
+    const expectedSize = header.readUInt32LE(4) + 8;
+    const fileSize = FileUtils.getFileSize(filePath);
+    if (fileSize < expectedSize) {
+      return { valid: false, truncated: true, reason: `expected ${expectedSize} bytes, found ${fileSize}` };
+    }
+    return { valid: true };
+  }
+}
@@ -1,15 +1,18 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
+import { AUTH_CONFIG } from '../../config/constants';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface FeedMonitorOptions {
   interval?: number;
   iterations?: number;
   outputDir?: string;
   cookies?: string;
+  cookiesFile?: string;
+  fromCurl?: string;
 }
 
 export interface FeedFile {
@@ -56,6 +59,8 @@ export class FeedMonitor {
   private iterations: number;
   private outputDir: string;
   private cookies: string;
+  private cookiesFile?: string;
+  private fromCurl?: string;
   private currentIteration: number;
   private feedFiles: FeedFile[];
   private startTime: number;
@@ -65,6 +70,8 @@ export class FeedMonitor {
     this.iterations = options.iterations || 10;
     this.outputDir = options.outputDir || './feed-monitor-results';
     this.cookies = options.cookies || '';
+    this.cookiesFile = options.cookiesFile;
+    this.fromCurl = options.fromCurl;
     this.currentIteration = 0;
     this.feedFiles = [];
     this.startTime = Date.now();
@@ -82,11 +89,13 @@ export class FeedMonitor {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const outputFile = path.join(this.outputDir, `feed-${timestamp}.json`);
 
-    // Use --output flag to save directly to file, which is more reliable for large outputs
-    const command = `node dist/cli.js feed --pretty --output "${outputFile}"`;
-    const fullCommand = this.cookies ? 
-      `node dist/cli.js feed --pretty --output "${outputFile}" --cookies "${this.cookies}"` : 
-      command;
+    // Use --output flag to save directly to file, which is more reliable for large outputs.
+    // Arguments go straight to the child without a shell, and cookies travel in the
+    // environment so they never show up in the process list.
+    const args = ['dist/cli.js', 'feed', '--pretty', '--output', outputFile];
+    if (this.cookiesFile) args.push('--cookies-file', this.cookiesFile);
+    if (this.fromCurl) args.push('--from-curl', this.fromCurl);
+    const env = this.cookies ? { ...process.env, [AUTH_CONFIG.COOKIES_ENV]: this.cookies } : process.env;
 
     console.log(`🔄 [${this.currentIteration + 1}/${this.iterations}] Fetching feed...`);
     console.log(`📁 Saving to: ${outputFile}`);
@@ -98,8 +107,9 @@ export class FeedMonitor {
     }
 
     try {
-      const { stderr } = await execAsync(fullCommand, {
+      const { stderr } = await execFileAsync(process.execPath, args, {
         cwd: process.cwd(),
+        env,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer to handle large feed outputs
       });
 